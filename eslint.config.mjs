@@ -25,4 +25,15 @@ export default [{
         "no-throw-literal": "warn",
         semi: "warn",
     },
-}];
\ No newline at end of file
+}, {
+    files: ["src/core/**/*.ts"],
+
+    rules: {
+        "no-restricted-imports": ["error", {
+            paths: [{
+                name: "vscode",
+                message: "The core modules are unit tested without VS Code. Pass the values they need as parameters.",
+            }],
+        }],
+    },
+}];
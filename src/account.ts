@@ -0,0 +1,86 @@
+/*******************************************************************************
+ * (c) Copyright, Real-Time Innovations, 2024.
+ * All rights reserved.
+ * No duplications, whole or partial, manual or electronic, may be made
+ * without express written permission.  Any such copies, or
+ * revisions thereof, must display this notice unaltered.
+ * This code contains trade secrets of Real-Time Innovations, Inc.
+ */
+
+import * as vscode from "vscode";
+
+import { Auth } from "./auth";
+import { describeAccount, parseUsageHeaders, UsageInfo } from "./core/account";
+import { getActiveEnvironment } from "./environment";
+
+/**
+ * The usage reported by the last response of the server of each
+ * environment.
+ */
+const USAGE = new Map<string, UsageInfo>();
+
+const USAGE_EMITTER = new vscode.EventEmitter<void>();
+
+/**
+ * Fired when the server reports new rate limit or quota information.
+ */
+export const onDidChangeUsage = USAGE_EMITTER.event;
+
+/**
+ * Records the rate limit and quota headers of a response of the server of
+ * the active environment. Responses without them are ignored.
+ *
+ * @param headers - The headers of the response.
+ */
+export function recordUsage(headers: { get(name: string): string | null }) {
+    const usage = parseUsageHeaders(
+        (name) => headers.get(name),
+        Math.floor(Date.now() / 1000)
+    );
+
+    if (usage !== undefined) {
+        USAGE.set(getActiveEnvironment().name, usage);
+        USAGE_EMITTER.fire();
+    }
+}
+
+/**
+ * Describes the signed-in account of the active environment and its usage.
+ *
+ * @returns The description, one item per line.
+ */
+export async function getAccountDescription(): Promise<string[]> {
+    const environment = getActiveEnvironment();
+    let account = undefined;
+
+    try {
+        account = await Auth.getAccountInfo();
+    } catch (error) {
+        account = undefined;
+    }
+
+    return describeAccount(
+        environment.name,
+        account,
+        USAGE.get(environment.name),
+        Math.floor(Date.now() / 1000)
+    );
+}
+
+/**
+ * Shows the account, its scopes, the expiration of the token and the usage
+ * reported by the server, with an option to copy them.
+ */
+export async function showAccount() {
+    const description = (await getAccountDescription()).join("\n");
+
+    const selection = await vscode.window.showInformationMessage(
+        "Connext Account",
+        { modal: true, detail: description },
+        "Copy"
+    );
+
+    if (selection === "Copy") {
+        await vscode.env.clipboard.writeText(description);
+    }
+}
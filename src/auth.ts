@@ -13,29 +13,59 @@ import { jwtDecode } from "jwt-decode";
 import { URLSearchParams } from "url";
 import * as vscode from "vscode";
 
-interface Auth0Config {
-    audience: string;
-    clientId: string;
-    domain: string;
+import { AccountInfo, getAccountInfo } from "./core/account";
+import { getCallbackPage, parseCallback } from "./core/callback";
+import { getHeadlessCredentials } from "./core/credentials";
+import { ConnextEnvironment, getSecretKey } from "./core/environment";
+import {
+    getActiveEnvironment,
+    isUserEnvironment,
+    onDidChangeEnvironment,
+} from "./environment";
+import { getAxiosNetworkOptions } from "./network";
+
+export { CONNEXT_SCOPES } from "./core/environment";
+
+/**
+ * The id of the Connext authentication provider, to use with
+ * `vscode.authentication.getSession()`.
+ */
+export const CONNEXT_AUTH_PROVIDER_ID = "connext";
+
+/**
+ * The tokens received at login.
+ */
+interface TokenSet {
+    accessToken: string;
+    refreshToken: string;
+    idToken: string | undefined;
 }
 
+/**
+ * Manages the login to the active environment. The Auth0 tenant and the
+ * scopes come from the environment, and the tokens of each environment are
+ * stored under their own keys, so that switching environments does not log
+ * out of the others.
+ */
 export class Auth {
 
+    private static loginEmitter = new vscode.EventEmitter<void>();
+
+    /**
+     * Fired after a login, a logout or a token refresh in the active
+     * environment, and when another environment becomes active.
+     */
+    public static readonly onDidChangeLogin = this.loginEmitter.event;
+
     /**
-     * These fields need to be updated with your Auth0 configuration. They are
-     * not considered sensitive information and can be stored directly in the
-     * source code. Alternatively, you can store them in a configuration file
-     * (you will need functionality to read or parse this file) or environment
-     * variables.
+     * The last token obtained with the client credentials grant.
      */
-    private static readonly auth0Config: Auth0Config = {
-        audience: "https://chatbot.rti.com/api/v1",
-        clientId: "deY3Vcmm0MWQBCsJTrCy4fZTTUO7u9gF",
-        domain: "dev-6pfajgsd68a3srda.us.auth0.com",
-    };
+    private static clientCredentialsToken:
+        { key: string, accessToken: string, expiresAt: number } | undefined;
 
     private static codeVerifier: string | undefined;
     private static context: vscode.ExtensionContext | undefined;
+    private static loginTimeout: number = 300; // 5 min
     private static port: number = 50000; // ephemeral port
     private static redirectUri: string = `http://localhost:${this.port}/callback`;
     private static state: string | undefined;
@@ -45,6 +75,41 @@ export class Auth {
         if (!this.context) {
             throw new Error("Error logging out: context is not initialized.");
         }
+
+        context.subscriptions.push(
+            this.loginEmitter,
+            context.secrets.onDidChange((event) => {
+                const environment = getActiveEnvironment();
+                if (
+                    event.key === this.secretKey(environment, "accessToken") ||
+                    event.key === this.secretKey(environment, "apiToken")
+                ) {
+                    this.loginEmitter.fire();
+                }
+            }),
+            onDidChangeEnvironment(() => this.loginEmitter.fire())
+        );
+    }
+
+    /**
+     * The scopes requested at login: the scopes of the environment, openid,
+     * profile and email to identify the account, and offline_access, which
+     * is required for refresh tokens.
+     * @param environment The environment to log in to.
+     * @returns The scopes, separated by spaces.
+     */
+    private static getScope(environment: ConnextEnvironment): string {
+        return [...environment.scopes, "openid", "profile", "email", "offline_access"].join(" ");
+    }
+
+    /**
+     * Get the secret storage key of a token of an environment.
+     * @param environment The environment.
+     * @param key The name of the token.
+     * @returns The secret storage key.
+     */
+    private static secretKey(environment: ConnextEnvironment, key: string): string {
+        return getSecretKey(environment.name, key);
     }
 
     public static async login(): Promise<void> {
@@ -53,76 +118,94 @@ export class Auth {
                 "Error logging in: context is not initialized. Have you called setup()?");
         }
 
-        try {
-            // Generate PKCE verifier and challenge
-            this.codeVerifier = this.generateCodeVerifier();
-            const codeChallenge = this.generateCodeChallenge(this.codeVerifier);
-
-            // Generate a random state
-            this.state = this.generateState();
-
-            // Find an available port for the callback server and update the
-            // redirect URI
-            this.port = await this.findAvailablePort(this.port);
-            this.redirectUri = `http://localhost:${this.port}/callback`;
-
-            const authCodePromise = this.waitForAuthCode();
-
-            // Build the Auth URL
-            const authUrl = `https://${this.auth0Config.domain}/authorize?` + new URLSearchParams({
-                client_id: this.auth0Config.clientId,
-                code_challenge_method: "S256",
-                code_challenge: codeChallenge,
-                redirect_uri: this.redirectUri,
-                response_type: "code",
-                scope: "ask:question session:create session:delete session:update offline_access", // offline_access scope is required for refresh tokens
-                audience: this.auth0Config.audience,
-                state: this.state,
-            }).toString();
-
-            // Open the user's browser for login
-            await vscode.env.openExternal(vscode.Uri.parse(authUrl));
-
-            // Wait for the callback to retrieve the authorization code
-            const { authCode, receivedState } = await authCodePromise;
-            if (!authCode) {
-                throw new Error("Authentication failed. No authorization code received.");
-            }
+        // The tokens are stored for the environment that was active when the
+        // login started, even if the user switches during the login
+        const environment = getActiveEnvironment();
 
-            // Validate the state
-            if (receivedState !== this.state) {
-                throw new Error("Authentication failed. State mismatch.");
+        try {
+            const tokens = this.useDeviceCode()
+                ? await this.loginWithDeviceCode(environment)
+                : await this.loginWithBrowser(environment);
+
+            // Store the tokens in secretStorage. The access token is stored
+            // last because storing it notifies the listeners of a new login
+            if (tokens.idToken) {
+                await this.context.secrets.store(
+                    this.secretKey(environment, "idToken"), tokens.idToken);
             }
-
-            // Exchange the authorization code for an access token and refresh token
-            const { accessToken, refreshToken } = await this.exchangeAuthCodeForTokens(authCode, this.codeVerifier);
-
-            // Store the tokens in secretStorage
-            await this.context.secrets.store("accessToken", accessToken);
-            await this.context.secrets.store("refreshToken", refreshToken);
+            await this.context.secrets.store(
+                this.secretKey(environment, "refreshToken"), tokens.refreshToken);
+            await this.context.secrets.store(
+                this.secretKey(environment, "accessToken"), tokens.accessToken);
         } catch (error) {
             throw new Error("Login failed: " + error);
         }
     }
 
+    /**
+     * Log out of the active environment. The refresh token is revoked at the
+     * identity provider before the tokens are deleted.
+     * @throws If the context is not initialized.
+     */
     public static async logout(): Promise<void> {
         if (this.context) {
-            await this.context.secrets.delete("accessToken");
-            await this.context.secrets.delete("refreshToken");
+            const environment = getActiveEnvironment();
+
+            const refreshToken = await this.context.secrets.get(
+                this.secretKey(environment, "refreshToken"));
+            if (refreshToken) {
+                await this.revokeRefreshToken(environment, refreshToken);
+            }
+
+            await this.context.secrets.delete(this.secretKey(environment, "accessToken"));
+            await this.context.secrets.delete(this.secretKey(environment, "refreshToken"));
+            await this.context.secrets.delete(this.secretKey(environment, "idToken"));
+            await this.context.secrets.delete(this.secretKey(environment, "apiToken"));
         } else {
             throw new Error("Error logging out: context is not initialized.");
         }
     }
 
     /**
-     * Get the access token from secret storage. If the token has expired,
-     * refresh it.
+     * Store a personal access token for the active environment, which is
+     * used instead of the interactive login.
+     * @param token The token, or undefined to remove it.
+     * @throws If the context is not initialized.
+     */
+    public static async setApiToken(token: string | undefined): Promise<void> {
+        if (!this.context) {
+            throw new Error(
+                "Error storing the API token: context is not initialized. Have you called setup()?");
+        }
+
+        const key = this.secretKey(getActiveEnvironment(), "apiToken");
+
+        if (token) {
+            await this.context.secrets.store(key, token);
+        } else {
+            await this.context.secrets.delete(key);
+        }
+    }
+
+    /**
+     * Get the access token of the active environment. The headless
+     * credentials are used if they are set. Otherwise, the token of the
+     * interactive login is read from secret storage and refreshed if it has
+     * expired.
      * @returns The access token or undefined if an error occurred.
      * @throws If the context is not initialized.
      */
     public static async getAccessToken(): Promise<string | undefined> {
         if (this.context) {
-            let accessToken = await this.context.secrets.get("accessToken");
+            const environment = getActiveEnvironment();
+
+            const headlessToken = await this.getHeadlessAccessToken(environment);
+            if (headlessToken) {
+                return headlessToken;
+            }
+
+            let accessToken = await this.context.secrets.get(
+                this.secretKey(environment, "accessToken"));
             if (!accessToken) {
                 // If there is no access token, then the user is not logged in
                 return undefined;
@@ -134,7 +217,7 @@ export class Auth {
 
             if (currentTime + margin > decodedToken.exp) {
                 // If the token is expired, or about to expire, refresh it
-                accessToken = await this.refreshAccessToken();
+                accessToken = await this.refreshAccessToken(environment);
             }
 
             return accessToken;
@@ -144,6 +227,357 @@ export class Auth {
         }
     }
 
+    /**
+     * Get the access token from secret storage without refreshing it, or
+     * the headless token if the headless credentials are set.
+     * @returns The stored access token or undefined if the user is not logged in.
+     * @throws If the context is not initialized.
+     */
+    public static async getStoredAccessToken(): Promise<string | undefined> {
+        if (!this.context) {
+            throw new Error(
+                "Error getting access token: context is not initialized. Have you called setup()?");
+        }
+
+        const environment = getActiveEnvironment();
+
+        return (await this.getHeadlessAccessToken(environment)) ??
+            this.context.secrets.get(this.secretKey(environment, "accessToken"));
+    }
+
+    /**
+     * Get the account of the headless token, or of the logged in user from
+     * the ID token, or from the access token if the ID token is not
+     * available.
+     * @returns The account id and a label to display, or undefined if the
+     * user is not logged in.
+     * @throws If the context is not initialized.
+     */
+    public static async getAccount(): Promise<{ id: string, label: string } | undefined> {
+        if (!this.context) {
+            throw new Error(
+                "Error getting account: context is not initialized. Have you called setup()?");
+        }
+
+        const environment = getActiveEnvironment();
+        const token =
+            (await this.getHeadlessAccessToken(environment)) ??
+            (await this.context.secrets.get(this.secretKey(environment, "idToken"))) ??
+            (await this.context.secrets.get(this.secretKey(environment, "accessToken")));
+
+        if (!token) {
+            return undefined;
+        }
+
+        try {
+            const claims: { sub: string, email?: string, name?: string } = jwtDecode(token);
+            return { id: claims.sub, label: claims.email ?? claims.name ?? claims.sub };
+        } catch (error) {
+            return { id: "connext", label: "RTI Connext" };
+        }
+    }
+
+    /**
+     * Get the identity, the scopes and the expiration of the access token
+     * of the active environment, without refreshing it.
+     * @returns The account, or undefined if the user is not logged in.
+     * @throws If the context is not initialized.
+     */
+    public static async getAccountInfo(): Promise<AccountInfo | undefined> {
+        if (!this.context) {
+            throw new Error(
+                "Error getting account: context is not initialized. Have you called setup()?");
+        }
+
+        const accessToken = await this.getStoredAccessToken();
+
+        if (!accessToken) {
+            return undefined;
+        }
+
+        const idToken = await this.context.secrets.get(
+            this.secretKey(getActiveEnvironment(), "idToken"));
+
+        return getAccountInfo(accessToken, idToken);
+    }
+
+    /**
+     * Get a token that does not need an interactive login: the personal
+     * access token in the CONNEXT_API_TOKEN environment variable, a token
+     * obtained with the client credentials in the CONNEXT_CLIENT_ID and
+     * CONNEXT_CLIENT_SECRET environment variables, or the personal access
+     * token stored with `setApiToken()`. The credentials in the environment
+     * variables are only sent to the environments of the user settings.
+     * @param environment The environment of the token.
+     * @returns The token, or undefined if no headless credentials are set.
+     * @throws If the context is not initialized, the environment is not
+     * defined in the user settings or the client credentials are rejected.
+     */
+    private static async getHeadlessAccessToken(
+        environment: ConnextEnvironment
+    ): Promise<string | undefined> {
+        if (!this.context) {
+            throw new Error("Context is not initialized. Have you called setup()?");
+        }
+
+        const credentials = getHeadlessCredentials(process.env);
+
+        if (credentials !== undefined && !isUserEnvironment(environment)) {
+            throw new Error(
+                `The credentials in the environment variables are not sent to the ${environment.name} environment, because it is not defined in the user settings.`);
+        }
+
+        if (credentials?.kind === "apiToken") {
+            return credentials.token;
+        } else if (credentials?.kind === "clientCredentials") {
+            return this.getClientCredentialsToken(
+                environment, credentials.clientId, credentials.clientSecret);
+        }
+
+        return this.context.secrets.get(this.secretKey(environment, "apiToken"));
+    }
+
+    /**
+     * Get a token with the client credentials grant. The token is kept in
+     * memory and requested again when it is about to expire.
+     * @param environment The environment of the token.
+     * @param clientId The client id of the machine to machine application.
+     * @param clientSecret The client secret of the machine to machine application.
+     * @returns The access token.
+     * @throws If the request fails.
+     * @see https://auth0.com/docs/get-started/authentication-and-authorization-flow/client-credentials-flow
+     */
+    private static async getClientCredentialsToken(
+        environment: ConnextEnvironment,
+        clientId: string,
+        clientSecret: string
+    ): Promise<string> {
+        const key = `${environment.name}:${clientId}`;
+        const currentTime = Math.floor(Date.now() / 1000);
+        const margin = 600; // 10 min
+
+        if (
+            this.clientCredentialsToken?.key === key &&
+            currentTime + margin < this.clientCredentialsToken.expiresAt
+        ) {
+            return this.clientCredentialsToken.accessToken;
+        }
+
+        const tokenUrl = `https://${environment.auth.domain}/oauth/token`;
+        try {
+            const response = await axios.post(tokenUrl, new URLSearchParams({
+                grant_type: "client_credentials",
+                client_id: clientId,
+                client_secret: clientSecret,
+                audience: environment.auth.audience,
+            }), {
+                headers: { "Content-Type": "application/x-www-form-urlencoded" },
+                ...getAxiosNetworkOptions(tokenUrl),
+            });
+
+            this.clientCredentialsToken = {
+                key: key,
+                accessToken: response.data.access_token,
+                expiresAt: currentTime + (response.data.expires_in ?? 3600),
+            };
+
+            return response.data.access_token;
+        } catch (error: any) {
+            throw new Error(
+                `Failed to get a token with the client credentials: ${error.response?.data?.error ?? error}`);
+        }
+    }
+
+    /**
+     * Decide whether to log in with the device authorization flow instead of
+     * the browser redirect, based on the `connext.loginMethod` setting. In
+     * "auto" mode the device flow is used in remote workspaces (SSH,
+     * containers, Codespaces) and in VS Code for the Web, where the browser
+     * cannot reach the local callback server.
+     * @returns True to use the device authorization flow.
+     */
+    private static useDeviceCode(): boolean {
+        const loginMethod = vscode.workspace
+            .getConfiguration("connext")
+            .get<string>("loginMethod", "auto");
+
+        if (loginMethod === "deviceCode") {
+            return true;
+        } else if (loginMethod === "browser") {
+            return false;
+        }
+
+        return vscode.env.remoteName !== undefined ||
+            vscode.env.uiKind === vscode.UIKind.Web;
+    }
+
+    /**
+     * Log in with the authorization code flow with PKCE. The browser is
+     * redirected to a local callback server with the authorization code.
+     * @param environment The environment to log in to.
+     * @returns The tokens.
+     * @see https://auth0.com/docs/get-started/authentication-and-authorization-flow/authorization-code-flow-with-pkce
+     */
+    private static async loginWithBrowser(environment: ConnextEnvironment): Promise<TokenSet> {
+        // Generate PKCE verifier and challenge
+        this.codeVerifier = this.generateCodeVerifier();
+        const codeChallenge = this.generateCodeChallenge(this.codeVerifier);
+
+        // Generate a random state
+        this.state = this.generateState();
+
+        // Find an available port for the callback server and update the
+        // redirect URI
+        this.port = await this.findAvailablePort(this.port);
+        this.redirectUri = `http://localhost:${this.port}/callback`;
+
+        // Build the Auth URL
+        const authUrl = `https://${environment.auth.domain}/authorize?` + new URLSearchParams({
+            client_id: environment.auth.clientId,
+            code_challenge_method: "S256",
+            code_challenge: codeChallenge,
+            redirect_uri: this.redirectUri,
+            response_type: "code",
+            scope: this.getScope(environment),
+            audience: environment.auth.audience,
+            state: this.state,
+        }).toString();
+
+        const state = this.state;
+        const authCode = await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: "Waiting for the Connext login in the browser...",
+            cancellable: true,
+        }, async (progress, token) => {
+            const authCodePromise = this.waitForAuthCode(state, token);
+
+            // Open the user's browser for login
+            await vscode.env.openExternal(vscode.Uri.parse(authUrl));
+
+            // Wait for the callback to retrieve the authorization code
+            return authCodePromise;
+        });
+
+        // Exchange the authorization code for an access token and refresh token
+        return this.exchangeAuthCodeForTokens(environment, authCode, this.codeVerifier);
+    }
+
+    /**
+     * Log in with the device authorization flow. The user enters a code in
+     * a browser on any device while the extension polls for the tokens.
+     * @param environment The environment to log in to.
+     * @returns The tokens.
+     * @throws If the request fails, the user denies access, the code expires
+     * or the login is cancelled.
+     * @see https://auth0.com/docs/get-started/authentication-and-authorization-flow/device-authorization-flow
+     * @see https://datatracker.ietf.org/doc/html/rfc8628
+     */
+    private static async loginWithDeviceCode(environment: ConnextEnvironment): Promise<TokenSet> {
+        const deviceCodeUrl = `https://${environment.auth.domain}/oauth/device/code`;
+
+        const response = await axios.post(deviceCodeUrl, new URLSearchParams({
+            client_id: environment.auth.clientId,
+            scope: this.getScope(environment),
+            audience: environment.auth.audience,
+        }), {
+            headers: { "Content-Type": "application/x-www-form-urlencoded" },
+            ...getAxiosNetworkOptions(deviceCodeUrl),
+        });
+
+        const deviceCode: string = response.data.device_code;
+        const userCode: string = response.data.user_code;
+        const verificationUri: string = response.data.verification_uri;
+        const verificationUriComplete: string =
+            response.data.verification_uri_complete ?? verificationUri;
+
+        await vscode.env.clipboard.writeText(userCode);
+
+        vscode.window.showInformationMessage(
+            `To log in to Connext, open ${verificationUri} and enter the code ${userCode} (copied to the clipboard).`,
+            "Open Browser"
+        ).then((selection) => {
+            if (selection) {
+                vscode.env.openExternal(vscode.Uri.parse(verificationUriComplete));
+            }
+        });
+
+        return vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: `Waiting for the Connext login with code ${userCode}...`,
+            cancellable: true,
+        }, (progress, token) => this.pollForDeviceTokens(
+            environment,
+            deviceCode,
+            response.data.interval ?? 5,
+            response.data.expires_in ?? 900,
+            token
+        ));
+    }
+
+    /**
+     * Poll the token endpoint until the user completes the device login.
+     * @param environment The environment to log in to.
+     * @param deviceCode The device code of the login.
+     * @param interval The minimum time between requests, in seconds.
+     * @param expiresIn The lifetime of the device code, in seconds.
+     * @param token A cancellation token to stop waiting.
+     * @returns The tokens.
+     * @see https://datatracker.ietf.org/doc/html/rfc8628#section-3.4
+     */
+    private static async pollForDeviceTokens(
+        environment: ConnextEnvironment,
+        deviceCode: string,
+        interval: number,
+        expiresIn: number,
+        token: vscode.CancellationToken
+    ): Promise<TokenSet> {
+        const tokenUrl = `https://${environment.auth.domain}/oauth/token`;
+        const deadline = Date.now() + expiresIn * 1000;
+        let delay = interval * 1000;
+
+        while (Date.now() < deadline) {
+            await new Promise((resolve) => setTimeout(resolve, delay));
+
+            if (token.isCancellationRequested) {
+                throw new Error("Login cancelled.");
+            }
+
+            try {
+                const response = await axios.post(tokenUrl, new URLSearchParams({
+                    grant_type: "urn:ietf:params:oauth:grant-type:device_code",
+                    device_code: deviceCode,
+                    client_id: environment.auth.clientId,
+                }), {
+                    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+                    ...getAxiosNetworkOptions(tokenUrl),
+                });
+
+                return {
+                    accessToken: response.data.access_token,
+                    refreshToken: response.data.refresh_token,
+                    idToken: response.data.id_token,
+                };
+            } catch (error: any) {
+                const errorCode = error.response?.data?.error;
+
+                if (errorCode === "authorization_pending") {
+                    continue;
+                } else if (errorCode === "slow_down") {
+                    delay += 5000;
+                    continue;
+                } else if (errorCode === "access_denied") {
+                    throw new Error("Access denied.");
+                } else if (errorCode === "expired_token") {
+                    break;
+                }
+
+                throw error;
+            }
+        }
+
+        throw new Error("The login code has expired. Please log in again.");
+    }
+
     /**
      * Helper function to base64 URL encode a buffer.
      * @param buffer The buffer to encode.
@@ -185,33 +619,41 @@ export class Auth {
     }
 
     /**
-     * Refresh the access token using the refresh token.
+     * Refresh the access token of an environment using its refresh token.
+     * @param environment The environment of the token.
      * @returns The new access token.
      * @throws If the context is not initialized.
      * @throws If the refresh token is not available or the request fails.
      * @see https://auth0.com/docs/secure/tokens/refresh-tokens/use-refresh-tokens
      */
-    private static async refreshAccessToken(): Promise<string> {
+    private static async refreshAccessToken(environment: ConnextEnvironment): Promise<string> {
         if (!this.context) {
             throw new Error("Context is not initialized. Have you called setup()?");
         }
 
-        const tokenUrl = `https://${this.auth0Config.domain}/oauth/token`;
-        const refreshToken = await this.context.secrets.get("refreshToken");
+        const tokenUrl = `https://${environment.auth.domain}/oauth/token`;
+        const refreshToken = await this.context.secrets.get(
+            this.secretKey(environment, "refreshToken"));
         try {
             if (!refreshToken) {
                 throw new Error("No refresh token available. Please log in again.");
             }
             const response = await axios.post(tokenUrl, new URLSearchParams({
                 grant_type: "refresh_token",
-                client_id: this.auth0Config.clientId,
+                client_id: environment.auth.clientId,
                 refresh_token: refreshToken,
             }), {
                 headers: { "Content-Type": "application/x-www-form-urlencoded" },
+                ...getAxiosNetworkOptions(tokenUrl),
             });
 
             const newAccessToken = response.data.access_token;
-            await this.context.secrets.store("accessToken", newAccessToken);
+            if (response.data.id_token) {
+                await this.context.secrets.store(
+                    this.secretKey(environment, "idToken"), response.data.id_token);
+            }
+            await this.context.secrets.store(
+                this.secretKey(environment, "accessToken"), newAccessToken);
 
             return newAccessToken;
         } catch (error: any) {
@@ -226,63 +668,140 @@ export class Auth {
     }
 
     /**
-     * Wait for the callback from the OAuth2 flow to retrieve the authorization code.
-     * @returns The authorization code and state.
+     * Revoke a refresh token at the identity provider, so that it cannot be
+     * used after logging out. A failure is reported but does not prevent
+     * the logout.
+     * @param environment The environment of the token.
+     * @param refreshToken The refresh token to revoke.
+     * @see https://auth0.com/docs/secure/tokens/refresh-tokens/revoke-refresh-tokens
+     */
+    private static async revokeRefreshToken(
+        environment: ConnextEnvironment,
+        refreshToken: string
+    ): Promise<void> {
+        const revokeUrl = `https://${environment.auth.domain}/oauth/revoke`;
+        try {
+            await axios.post(revokeUrl, new URLSearchParams({
+                client_id: environment.auth.clientId,
+                token: refreshToken,
+            }), {
+                headers: { "Content-Type": "application/x-www-form-urlencoded" },
+                ...getAxiosNetworkOptions(revokeUrl),
+            });
+        } catch (error: any) {
+            vscode.window.showWarningMessage(
+                `Failed to revoke the refresh token: ${error.response?.data?.error ?? error}`);
+        }
+    }
+
+    /**
+     * Wait for the callback from the OAuth2 flow to retrieve the authorization
+     * code. The browser shows a page with the result of the login. Callbacks
+     * whose state does not match are ignored, so that other pages cannot end
+     * the login.
+     * @param state The state sent in the authorization request.
+     * @param token A cancellation token to stop waiting.
+     * @returns The authorization code.
+     * @throws If the identity provider reports an error, the login times out
+     * or is cancelled, or the server fails.
      * @see https://auth0.com/docs/get-started/authentication-and-authorization-flow/authorization-code-flow-with-pkce/add-login-using-the-authorization-code-flow-with-pkce#authorize-user
      */
-    private static waitForAuthCode(): Promise<{ authCode: string | null, receivedState: string | null }> {
-        return new Promise((resolve) => {
+    private static waitForAuthCode(state: string, token: vscode.CancellationToken): Promise<string> {
+        return new Promise((resolve, reject) => {
+            let finished = false;
+
+            const finish = (error: Error | undefined, authCode?: string) => {
+                if (finished) {
+                    return;
+                }
+
+                finished = true;
+                clearTimeout(timer);
+                cancellation.dispose();
+                server.close();
+
+                if (error) {
+                    reject(error);
+                } else {
+                    resolve(authCode!);
+                }
+            };
+
             const server = http.createServer((req, res) => {
                 const url = new URL(req.url || "", `http://localhost:${this.port}`);
-                if (url.pathname === "/callback" && url.searchParams.has("code")) {
-                    const authCode = url.searchParams.get("code");
-                    const receivedState = url.searchParams.get("state");
-                    res.writeHead(200, { "Content-Type": "text/html" });
-                    res.end("Authentication successful! You can close this window.");
-                    server.close();
-                    resolve({ authCode, receivedState });
-                } else {
+                const result = url.pathname === "/callback"
+                    ? parseCallback(url.searchParams)
+                    : { kind: "invalid" as const };
+
+                if (result.kind === "invalid") {
                     res.writeHead(400, { "Content-Type": "text/html" });
-                    res.end("Invalid callback URL.");
+                    res.end(getCallbackPage(false, "Invalid callback URL."));
+                } else if (result.receivedState !== state) {
+                    // Not the redirect of this login, which keeps waiting
+                    res.writeHead(400, { "Content-Type": "text/html" });
+                    res.end(getCallbackPage(false, "The login request does not match. Please log in again from VS Code."));
+                } else if (result.kind === "error") {
+                    res.writeHead(400, { "Content-Type": "text/html" });
+                    res.end(getCallbackPage(false, result.description));
+                    finish(new Error(`${result.description} (${result.error})`));
+                } else {
+                    res.writeHead(200, { "Content-Type": "text/html" });
+                    res.end(getCallbackPage(true, "You can close this window and return to VS Code."));
+                    finish(undefined, result.authCode);
                 }
             });
 
+            const timer = setTimeout(() => {
+                finish(new Error("The login timed out. Please log in again."));
+            }, this.loginTimeout * 1000);
+
+            const cancellation = token.onCancellationRequested(() => {
+                finish(new Error("Login cancelled."));
+            });
+
             server.listen(this.port, () => {
                 console.log(`Waiting for callback on ${this.redirectUri}`);
             });
 
             server.on("error", (err) => {
                 console.error("Server error:", err);
-                resolve({ authCode: null, receivedState: null });
+                finish(err);
             });
         });
     }
 
     /**
      * Exchange the authorization code for an access token and refresh token.
+     * @param environment The environment to log in to.
      * @param authCode The authorization code received from the OAuth2 flow.
      * @param codeVerifier The code verifier used in the OAuth2 flow.
-     * @returns The access token and refresh token.
+     * @returns The access token, refresh token and ID token.
      * @throws If the request fails.
      * @see https://auth0.com/docs/get-started/authentication-and-authorization-flow/authorization-code-flow-with-pkce/add-login-using-the-authorization-code-flow-with-pkce#request-tokens
      */
-    private static async exchangeAuthCodeForTokens(authCode: string, codeVerifier: string): Promise<{ accessToken: string, refreshToken: string }> {
-        const tokenUrl = `https://${this.auth0Config.domain}/oauth/token`;
+    private static async exchangeAuthCodeForTokens(
+        environment: ConnextEnvironment,
+        authCode: string,
+        codeVerifier: string
+    ): Promise<TokenSet> {
+        const tokenUrl = `https://${environment.auth.domain}/oauth/token`;
         try {
             const response = await axios.post(tokenUrl, new URLSearchParams({
                 grant_type: "authorization_code",
-                client_id: this.auth0Config.clientId,
+                client_id: environment.auth.clientId,
                 code: authCode,
                 code_verifier: codeVerifier,
                 redirect_uri: this.redirectUri,
             }), {
                 headers: { "Content-Type": "application/x-www-form-urlencoded" },
+                ...getAxiosNetworkOptions(tokenUrl),
             });
 
             const accessToken = response.data.access_token;
             const refreshToken = response.data.refresh_token;
+            const idToken = response.data.id_token;
 
-            return { accessToken, refreshToken };
+            return { accessToken, refreshToken, idToken };
         } catch (error: any) {
             vscode.window.showErrorMessage(
                 "Error exchanging code for tokens: " + error);
@@ -322,3 +841,159 @@ export class Auth {
     }
 
 }
+
+/**
+ * Exposes the Connext login as a VS Code authentication provider, so that
+ * the account is shown in the Accounts menu and other extensions can get
+ * an access token with `vscode.authentication.getSession()`.
+ *
+ * The tokens are managed by `Auth`. The provider only has one session: the
+ * account logged in to the active environment, which is granted all the
+ * scopes of the environment.
+ */
+export class ConnextAuthenticationProvider
+    implements vscode.AuthenticationProvider, vscode.Disposable
+{
+    private onDidChangeSessionsEmitter =
+        new vscode.EventEmitter<vscode.AuthenticationProviderAuthenticationSessionsChangeEvent>();
+
+    /**
+     * The session reported in the last change event.
+     */
+    private lastSession: vscode.AuthenticationSession | undefined;
+
+    private disposables: vscode.Disposable[];
+
+    readonly onDidChangeSessions = this.onDidChangeSessionsEmitter.event;
+
+    /**
+     * Registers the provider. `Auth.setup()` must be called first.
+     */
+    constructor() {
+        this.disposables = [
+            this.onDidChangeSessionsEmitter,
+            vscode.authentication.registerAuthenticationProvider(
+                CONNEXT_AUTH_PROVIDER_ID,
+                "RTI Connext",
+                this,
+                { supportsMultipleAccounts: false }
+            ),
+            Auth.onDidChangeLogin(() => this.notifyChanges()),
+        ];
+
+        this.notifyChanges();
+    }
+
+    /**
+     * Returns the session of the logged in user, with a valid access token.
+     * @param scopes - The requested scopes. No session is returned if any of
+     * them is not a scope of the active environment.
+     */
+    async getSessions(
+        scopes?: readonly string[]
+    ): Promise<vscode.AuthenticationSession[]> {
+        if (scopes !== undefined && !this.supportsScopes(scopes)) {
+            return [];
+        }
+
+        const session = await this.readSession(true);
+
+        return session !== undefined ? [session] : [];
+    }
+
+    /**
+     * Logs in through the browser and returns the new session.
+     * @param scopes - The requested scopes, which must be scopes of the
+     * active environment.
+     */
+    async createSession(
+        scopes: readonly string[]
+    ): Promise<vscode.AuthenticationSession> {
+        if (!this.supportsScopes(scopes)) {
+            throw new Error(`Unsupported scopes: ${scopes.join(" ")}`);
+        }
+
+        await Auth.login();
+
+        const session = await this.readSession(true);
+
+        if (session === undefined) {
+            throw new Error("Login failed: no access token received.");
+        }
+
+        return session;
+    }
+
+    /**
+     * Logs out. There is a single session, so the id is not used.
+     */
+    async removeSession(sessionId: string): Promise<void> {
+        await Auth.logout();
+    }
+
+    dispose() {
+        this.disposables.forEach((disposable) => disposable.dispose());
+    }
+
+    private supportsScopes(scopes: readonly string[]): boolean {
+        const environmentScopes = getActiveEnvironment().scopes;
+
+        return scopes.every((scope) => environmentScopes.includes(scope));
+    }
+
+    /**
+     * Builds the session from the stored tokens.
+     * @param refresh - Whether to refresh the access token if it has expired.
+     * @returns The session, or undefined if the user is not logged in or the
+     * token cannot be refreshed.
+     */
+    private async readSession(
+        refresh: boolean
+    ): Promise<vscode.AuthenticationSession | undefined> {
+        try {
+            const account = await Auth.getAccount();
+            const accessToken = refresh
+                ? await Auth.getAccessToken()
+                : await Auth.getStoredAccessToken();
+
+            if (account === undefined || accessToken === undefined) {
+                return undefined;
+            }
+
+            return {
+                id: account.id,
+                accessToken: accessToken,
+                account: account,
+                scopes: getActiveEnvironment().scopes,
+            };
+        } catch (error) {
+            return undefined;
+        }
+    }
+
+    /**
+     * Fires the change event after a login, a logout, a token refresh or a
+     * change of environment.
+     * The token is not refreshed here, because refreshing it stores a new
+     * one and would notify the change again.
+     */
+    private async notifyChanges() {
+        const session = await this.readSession(false);
+        const lastSession = this.lastSession;
+        this.lastSession = session;
+
+        if (lastSession === undefined && session === undefined) {
+            return;
+        }
+
+        if (lastSession === undefined) {
+            this.onDidChangeSessionsEmitter.fire({ added: [session!], removed: [], changed: [] });
+        } else if (session === undefined) {
+            this.onDidChangeSessionsEmitter.fire({ added: [], removed: [lastSession], changed: [] });
+        } else if (lastSession.id !== session.id) {
+            this.onDidChangeSessionsEmitter.fire({ added: [session], removed: [lastSession], changed: [] });
+        } else {
+            this.onDidChangeSessionsEmitter.fire({ added: [], removed: [], changed: [session] });
+        }
+    }
+}
@@ -0,0 +1,551 @@
+/*******************************************************************************
+ * (c) Copyright, Real-Time Innovations, 2024.
+ * All rights reserved.
+ * No duplications, whole or partial, manual or electronic, may be made
+ * without express written permission.  Any such copies, or
+ * revisions thereof, must display this notice unaltered.
+ * This code contains trade secrets of Real-Time Innovations, Inc.
+ */
+
+import * as vscode from "vscode";
+import io from "socket.io-client";
+import { Socket } from "socket.io-client";
+
+import { getAccountDescription, onDidChangeUsage } from "./account";
+import { Auth } from "./auth";
+import { RequestMultiplexer } from "./multiplexer";
+import { getSocketNetworkOptions } from "./network";
+import { showErrorMessage } from "./utils";
+
+/**
+ * The state of the connection to the Intelligence Platform.
+ */
+export enum ConnectionState {
+    Connected,
+    Connecting,
+    Offline,
+    AuthRequired,
+    HttpStreaming,
+}
+
+/**
+ * The delay before the first reconnection attempt, in milliseconds.
+ */
+const RECONNECT_BASE_DELAY = 1000;
+
+/**
+ * The maximum delay between reconnection attempts, in milliseconds.
+ */
+const RECONNECT_MAX_DELAY = 30000;
+
+/**
+ * The number of reconnection attempts after which the connection is
+ * considered offline. The next question starts a new connection.
+ */
+const RECONNECT_MAX_ATTEMPTS = 8;
+
+/**
+ * The time after falling back to HTTP streaming before the Socket.IO
+ * connection is tried again, in milliseconds.
+ */
+const WEBSOCKET_RETRY_INTERVAL = 5 * 60 * 1000;
+
+/**
+ * Owns the Socket.IO connection to the Intelligence Platform.
+ *
+ * The manager connects on demand, reconnects with exponential backoff when
+ * the connection is lost, and fetches a fresh access token from
+ * `Auth.getAccessToken()` before every attempt. Requests are sent through the
+ * `RequestMultiplexer` attached to the current socket.
+ */
+export class ConnectionManager implements vscode.Disposable {
+    private socket: Socket | undefined;
+    private multiplexer: RequestMultiplexer | undefined;
+    private url: string | undefined;
+
+    private state: ConnectionState;
+    private reason: string | undefined;
+
+    private reconnectAttempts: number;
+    private reconnectTimer: NodeJS.Timeout | undefined;
+
+    /**
+     * The connection attempt in progress. Concurrent calls to `connect()`
+     * wait for it instead of opening a second socket.
+     */
+    private opening: Promise<void> | undefined;
+
+    /**
+     * Incremented every time the socket is closed, so that a connection
+     * attempt that was waiting for the access token is abandoned.
+     */
+    private generation: number;
+
+    /**
+     * When the answers started to be streamed over HTTP, or undefined if
+     * they are not.
+     */
+    private httpStreamingSince: number | undefined;
+
+    /**
+     * Set when the access token changed while requests were in flight. The
+     * socket is re-established with the new token once it becomes idle.
+     */
+    private stale: boolean;
+
+    private stateEmitter: vscode.EventEmitter<ConnectionState>;
+
+    /**
+     * Fired when a connection attempt fails, so that a question does not
+     * wait for the next attempt.
+     */
+    private attemptFailedEmitter: vscode.EventEmitter<void>;
+
+    /**
+     * Fired every time the connection state changes.
+     */
+    readonly onDidChangeState: vscode.Event<ConnectionState>;
+
+    constructor() {
+        this.socket = undefined;
+        this.multiplexer = undefined;
+        this.url = undefined;
+        this.state = ConnectionState.Offline;
+        this.reason = undefined;
+        this.reconnectAttempts = 0;
+        this.reconnectTimer = undefined;
+        this.opening = undefined;
+        this.generation = 0;
+        this.httpStreamingSince = undefined;
+        this.stale = false;
+        this.stateEmitter = new vscode.EventEmitter<ConnectionState>();
+        this.onDidChangeState = this.stateEmitter.event;
+        this.attemptFailedEmitter = new vscode.EventEmitter<void>();
+    }
+
+    /**
+     * The current connection state.
+     */
+    get currentState(): ConnectionState {
+        return this.state;
+    }
+
+    /**
+     * A human readable explanation of the current state, if any.
+     */
+    get stateReason(): string | undefined {
+        return this.reason;
+    }
+
+    /**
+     * Returns a multiplexer for a connected socket, connecting to the given
+     * URL if needed.
+     *
+     * @param url - The URL of the Intelligence Platform.
+     * @param timeout - The maximum time to wait for the connection, in milliseconds.
+     * @param token - A cancellation token to stop waiting for the connection.
+     * @returns The multiplexer, or `undefined` if the connection could not be
+     * established. `stateReason` then tells why.
+     */
+    async connect(
+        url: string,
+        timeout: number,
+        token?: vscode.CancellationToken
+    ): Promise<RequestMultiplexer | undefined> {
+        if (this.url !== url) {
+            this.teardown();
+            this.url = url;
+        } else if (
+            this.stale &&
+            (this.multiplexer === undefined ||
+                this.multiplexer.pendingCount === 0)
+        ) {
+            this.teardown();
+        }
+
+        if (this.state === ConnectionState.Connected) {
+            return this.multiplexer;
+        }
+
+        if (this.opening !== undefined) {
+            await this.opening;
+        } else if (this.socket === undefined) {
+            this.reconnectAttempts = 0;
+            await this.openOnce();
+        } else if (this.reconnectTimer !== undefined) {
+            // Do not wait for the backoff when the user is asking a question
+            this.clearReconnectTimer();
+            await this.openOnce();
+        }
+
+        await this.waitForState(timeout, token);
+
+        if (this.currentState !== ConnectionState.Connected) {
+            return undefined;
+        }
+
+        return this.multiplexer;
+    }
+
+    /**
+     * Marks the current socket as authenticated with an outdated token. The
+     * socket is closed right away if no requests are in flight; otherwise it
+     * is replaced on the next call to `connect()` after they finish.
+     */
+    invalidate() {
+        if (
+            this.multiplexer === undefined ||
+            this.multiplexer.pendingCount === 0
+        ) {
+            this.teardown();
+        } else {
+            this.stale = true;
+        }
+    }
+
+    /**
+     * Closes the connection and stops reconnecting.
+     *
+     * @param state - The state to report after closing the connection.
+     * @param reason - An optional explanation of the state.
+     */
+    disconnect(
+        state: ConnectionState = ConnectionState.Offline,
+        reason?: string
+    ) {
+        this.teardown();
+        this.setState(state, reason);
+    }
+
+    /**
+     * Closes the Socket.IO connection and reports that the answers are
+     * streamed over HTTP instead. See `shouldTryWebSocket` for when the
+     * Socket.IO connection is tried again.
+     *
+     * @param reason - An explanation of why HTTP streaming is used.
+     */
+    useHttpStreaming(reason: string) {
+        this.disconnect(ConnectionState.HttpStreaming, reason);
+        this.httpStreamingSince = Date.now();
+    }
+
+    /**
+     * Whether the next question should try the Socket.IO connection. After
+     * falling back to HTTP streaming, the Socket.IO connection is tried
+     * again once `WEBSOCKET_RETRY_INTERVAL` has passed, so that a brief
+     * network failure does not leave the answers on HTTP for the rest of
+     * the session.
+     *
+     * @returns Whether to call `connect()`.
+     */
+    shouldTryWebSocket(): boolean {
+        return (
+            this.state !== ConnectionState.HttpStreaming ||
+            this.httpStreamingSince === undefined ||
+            Date.now() - this.httpStreamingSince >= WEBSOCKET_RETRY_INTERVAL
+        );
+    }
+
+    dispose() {
+        this.teardown();
+        this.stateEmitter.dispose();
+        this.attemptFailedEmitter.dispose();
+    }
+
+    /**
+     * Starts a connection attempt, or returns the one in progress.
+     */
+    private openOnce(): Promise<void> {
+        if (this.opening === undefined) {
+            const opening: Promise<void> = this.open().finally(() => {
+                if (this.opening === opening) {
+                    this.opening = undefined;
+                }
+            });
+
+            this.opening = opening;
+        }
+
+        return this.opening;
+    }
+
+    /**
+     * Opens the socket, or retries the connection of the existing one, using
+     * a fresh access token.
+     */
+    private async open() {
+        if (this.url === undefined) {
+            return;
+        }
+
+        const generation = this.generation;
+
+        this.setState(ConnectionState.Connecting);
+
+        let accessToken: string | undefined;
+
+        try {
+            accessToken = await Auth.getAccessToken();
+        } catch (error) {
+            accessToken = undefined;
+        }
+
+        // The connection was closed while waiting for the token
+        if (generation !== this.generation || this.url === undefined) {
+            return;
+        }
+
+        if (!accessToken) {
+            this.disconnect(
+                ConnectionState.AuthRequired,
+                "Log in to Connext to ask questions."
+            );
+            return;
+        }
+
+        const extraHeaders = {
+            authorization: `bearer ${accessToken}`,
+        };
+
+        if (this.socket !== undefined) {
+            this.socket.io.opts.extraHeaders = extraHeaders;
+            this.socket.connect();
+            return;
+        }
+
+        // Reconnection is handled by the manager so that every attempt uses
+        // a fresh access token
+        const socket = io(this.url, {
+            extraHeaders: extraHeaders,
+            reconnection: false,
+            ...getSocketNetworkOptions(this.url),
+        });
+
+        this.socket = socket;
+        this.multiplexer = new RequestMultiplexer(socket);
+
+        socket.on("connect", () => {
+            this.reconnectAttempts = 0;
+            this.setState(ConnectionState.Connected);
+        });
+
+        socket.on("disconnect", (reason: string) => {
+            if (reason === "io client disconnect") {
+                return;
+            }
+
+            this.scheduleReconnect(`Connection lost (${reason}).`);
+        });
+
+        socket.on("connect_error", (err: Error) => {
+            const message =
+                err.message !== ""
+                    ? `Error connecting to Socket.IO server: ${err}`
+                    : `Error connecting to Socket.IO server`;
+
+            if (this.reconnectAttempts === 0) {
+                showErrorMessage(message);
+            }
+
+            this.scheduleReconnect(message);
+            this.attemptFailedEmitter.fire();
+        });
+    }
+
+    /**
+     * Schedules the next connection attempt using exponential backoff.
+     */
+    private scheduleReconnect(reason: string) {
+        if (this.socket === undefined || this.reconnectTimer !== undefined) {
+            return;
+        }
+
+        if (this.reconnectAttempts >= RECONNECT_MAX_ATTEMPTS) {
+            this.disconnect(ConnectionState.Offline, reason);
+            return;
+        }
+
+        const delay = Math.min(
+            RECONNECT_BASE_DELAY * Math.pow(2, this.reconnectAttempts),
+            RECONNECT_MAX_DELAY
+        );
+
+        this.reconnectAttempts++;
+        this.setState(
+            ConnectionState.Connecting,
+            `${reason} Retrying in ${Math.round(delay / 1000)} s.`
+        );
+
+        this.reconnectTimer = setTimeout(() => {
+            this.reconnectTimer = undefined;
+            this.openOnce();
+        }, delay);
+    }
+
+    private clearReconnectTimer() {
+        if (this.reconnectTimer !== undefined) {
+            clearTimeout(this.reconnectTimer);
+            this.reconnectTimer = undefined;
+        }
+    }
+
+    /**
+     * Closes the socket and finishes the pending requests.
+     */
+    private teardown() {
+        this.clearReconnectTimer();
+        this.stale = false;
+        this.generation++;
+        this.opening = undefined;
+        this.httpStreamingSince = undefined;
+
+        if (this.multiplexer !== undefined) {
+            this.multiplexer.dispose();
+            this.multiplexer = undefined;
+        }
+
+        if (this.socket !== undefined) {
+            this.socket.removeAllListeners();
+            this.socket.disconnect();
+            this.socket = undefined;
+        }
+
+        if (this.state !== ConnectionState.AuthRequired) {
+            this.setState(ConnectionState.Offline);
+        }
+    }
+
+    /**
+     * Waits until the connection is established, or until it or the current
+     * attempt fails. The backoff keeps retrying in the background.
+     */
+    private waitForState(
+        timeout: number,
+        token?: vscode.CancellationToken
+    ): Promise<void> {
+        return new Promise<void>((resolve) => {
+            const isSettled = () =>
+                this.state === ConnectionState.Connected ||
+                this.state === ConnectionState.Offline ||
+                this.state === ConnectionState.AuthRequired;
+
+            if (isSettled() || token?.isCancellationRequested) {
+                resolve();
+                return;
+            }
+
+            const done = () => {
+                clearTimeout(timer);
+                listener.dispose();
+                failure.dispose();
+                cancellation?.dispose();
+                resolve();
+            };
+
+            const timer = setTimeout(done, timeout);
+
+            const listener = this.onDidChangeState(() => {
+                if (isSettled()) {
+                    done();
+                }
+            });
+
+            const failure = this.attemptFailedEmitter.event(done);
+
+            const cancellation = token?.onCancellationRequested(done);
+        });
+    }
+
+    private setState(state: ConnectionState, reason?: string) {
+        if (this.state === state && this.reason === reason) {
+            return;
+        }
+
+        this.state = state;
+        this.reason = reason;
+        this.stateEmitter.fire(state);
+    }
+}
+
+/**
+ * Creates a status bar item that shows the state of the connection to the
+ * Intelligence Platform. The tooltip also shows the signed-in account and
+ * the usage reported by the server.
+ *
+ * @param connection - The connection manager to observe.
+ * @returns A disposable that removes the status bar item.
+ */
+export function createConnectionStatusBarItem(
+    connection: ConnectionManager
+): vscode.Disposable {
+    const item = vscode.window.createStatusBarItem(
+        vscode.StatusBarAlignment.Right,
+        100
+    );
+
+    let account: string[] = [];
+
+    const update = () => {
+        const reason = connection.stateReason;
+        let tooltip: string;
+
+        switch (connection.currentState) {
+            case ConnectionState.Connected:
+                item.text = "$(check) Connext";
+                tooltip = "Connected to the Connext Intelligence Platform";
+                item.command = "connext-vc-copilot.show-account";
+                break;
+            case ConnectionState.Connecting:
+                item.text = "$(sync~spin) Connext";
+                tooltip = reason ?? "Connecting to the Connext Intelligence Platform";
+                item.command = "connext-vc-copilot.reconnect";
+                break;
+            case ConnectionState.HttpStreaming:
+                item.text = "$(cloud) Connext (HTTP)";
+                tooltip = reason ?? "Streaming answers from the Connext Intelligence Platform over HTTP";
+                item.command = "connext-vc-copilot.reconnect";
+                break;
+            case ConnectionState.AuthRequired:
+                item.text = "$(account) Connext";
+                tooltip = reason ?? "Log in to Connext";
+                item.command = "connext-vc-copilot.login";
+                break;
+            default:
+                item.text = "$(debug-disconnect) Connext";
+                tooltip = reason ?? "Not connected to the Connext Intelligence Platform";
+                item.command = "connext-vc-copilot.reconnect";
+                break;
+        }
+
+        const markdown = new vscode.MarkdownString();
+        markdown.appendText(tooltip);
+
+        for (const line of account) {
+            markdown.appendMarkdown("\n\n");
+            markdown.appendText(line);
+        }
+
+        item.tooltip = markdown;
+    };
+
+    // The account is read asynchronously and shown in the next update
+    const updateAccount = async () => {
+        account = await getAccountDescription();
+        update();
+    };
+
+    update();
+    updateAccount();
+    item.show();
+
+    const listeners = [
+        connection.onDidChangeState(() => {
+            update();
+            updateAccount();
+        }),
+        Auth.onDidChangeLogin(updateAccount),
+        onDidChangeUsage(updateAccount),
+    ];
+
+    return vscode.Disposable.from(item, ...listeners);
+}
@@ -0,0 +1,201 @@
+/*******************************************************************************
+ * (c) Copyright, Real-Time Innovations, 2024.
+ * All rights reserved.
+ * No duplications, whole or partial, manual or electronic, may be made
+ * without express written permission.  Any such copies, or
+ * revisions thereof, must display this notice unaltered.
+ * This code contains trade secrets of Real-Time Innovations, Inc.
+ */
+
+import { jwtDecode } from "jwt-decode";
+
+/**
+ * The identity and the grants of the signed-in user, decoded from the
+ * tokens.
+ */
+export interface AccountInfo {
+    id: string;
+    email?: string;
+    name?: string;
+    scopes: string[];
+    /**
+     * The expiration time of the access token, in seconds since the epoch.
+     */
+    expiresAt?: number;
+}
+
+/**
+ * The rate limit and quota reported by the server in the headers of its
+ * last response.
+ */
+export interface UsageInfo {
+    limit?: number;
+    remaining?: number;
+    /**
+     * When the rate limit resets, in seconds since the epoch.
+     */
+    reset?: number;
+    quotaLimit?: number;
+    quotaRemaining?: number;
+}
+
+function decodeClaims(token: string | undefined): any {
+    if (!token) {
+        return {};
+    }
+
+    try {
+        return jwtDecode(token);
+    } catch (error) {
+        // Personal access tokens may not be JWTs
+        return {};
+    }
+}
+
+/**
+ * Decodes the account from the access token and, if available, the ID
+ * token, which has the email and name of the user.
+ *
+ * @param accessToken - The access token.
+ * @param idToken - The ID token.
+ * @returns The account. The id is "unknown" if the tokens cannot be decoded.
+ */
+export function getAccountInfo(
+    accessToken: string,
+    idToken?: string
+): AccountInfo {
+    const access = decodeClaims(accessToken);
+    const id = decodeClaims(idToken);
+
+    let scopes: string[] = [];
+
+    if (typeof access.scope === "string") {
+        scopes = access.scope.split(" ").filter((scope: string) => scope);
+    } else if (Array.isArray(access.permissions)) {
+        scopes = access.permissions;
+    }
+
+    return {
+        id: id.sub ?? access.sub ?? "unknown",
+        email: id.email ?? access.email,
+        name: id.name ?? access.name,
+        scopes: scopes,
+        expiresAt: typeof access.exp === "number" ? access.exp : undefined,
+    };
+}
+
+function parseNumber(value: string | null | undefined): number | undefined {
+    if (value === null || value === undefined || value.trim() === "") {
+        return undefined;
+    }
+
+    const number = Number(value);
+
+    return Number.isFinite(number) ? number : undefined;
+}
+
+/**
+ * Reads the rate limit and quota headers of a response. Both the
+ * `RateLimit-*` and the `X-RateLimit-*` headers are supported. The reset
+ * may be a number of seconds or a time since the epoch.
+ *
+ * @param getHeader - Returns the value of a header, like `Headers.get`.
+ * @param now - The current time, in seconds since the epoch.
+ * @returns The usage, or undefined if the response has none of the headers.
+ */
+export function parseUsageHeaders(
+    getHeader: (name: string) => string | null | undefined,
+    now: number
+): UsageInfo | undefined {
+    const read = (name: string) =>
+        parseNumber(getHeader(name) ?? getHeader(`x-${name}`));
+
+    const usage: UsageInfo = {
+        limit: read("ratelimit-limit"),
+        remaining: read("ratelimit-remaining"),
+        reset: read("ratelimit-reset"),
+        quotaLimit: read("quota-limit"),
+        quotaRemaining: read("quota-remaining"),
+    };
+
+    // Resets of less than a year are relative to the current time
+    if (usage.reset !== undefined && usage.reset < 365 * 24 * 3600) {
+        usage.reset = now + usage.reset;
+    }
+
+    if (Object.values(usage).every((value) => value === undefined)) {
+        return undefined;
+    }
+
+    return usage;
+}
+
+function formatDuration(seconds: number): string {
+    if (seconds < 60) {
+        return `${seconds} s`;
+    } else if (seconds < 3600) {
+        return `${Math.floor(seconds / 60)} min`;
+    }
+
+    return `${Math.floor(seconds / 3600)} h ${Math.floor((seconds % 3600) / 60)} min`;
+}
+
+/**
+ * Describes the account and the usage, one item per line.
+ *
+ * @param environment - The name of the active environment.
+ * @param account - The account, or undefined if the user is not logged in.
+ * @param usage - The usage, or undefined if the server has not reported it.
+ * @param now - The current time, in seconds since the epoch.
+ * @returns The lines.
+ */
+export function describeAccount(
+    environment: string,
+    account: AccountInfo | undefined,
+    usage: UsageInfo | undefined,
+    now: number
+): string[] {
+    const lines = [`Environment: ${environment}`];
+
+    if (account === undefined) {
+        lines.push("Not logged in");
+        return lines;
+    }
+
+    lines.push(`Account: ${account.email ?? account.name ?? account.id}`);
+
+    if (account.email !== undefined || account.name !== undefined) {
+        lines.push(`Id: ${account.id}`);
+    }
+
+    lines.push(
+        `Scopes: ${account.scopes.length > 0 ? account.scopes.join(", ") : "none"}`
+    );
+
+    if (account.expiresAt !== undefined) {
+        const expiry = new Date(account.expiresAt * 1000).toISOString();
+
+        lines.push(
+            account.expiresAt > now
+                ? `Token expires: ${expiry} (in ${formatDuration(account.expiresAt - now)})`
+                : `Token expired: ${expiry}`
+        );
+    }
+
+    if (usage?.remaining !== undefined) {
+        const limit = usage.limit !== undefined ? ` of ${usage.limit}` : "";
+        const reset = usage.reset !== undefined && usage.reset > now
+            ? `, resets in ${formatDuration(usage.reset - now)}`
+            : "";
+
+        lines.push(`Rate limit: ${usage.remaining}${limit} requests left${reset}`);
+    }
+
+    if (usage?.quotaRemaining !== undefined) {
+        const limit = usage.quotaLimit !== undefined ? ` of ${usage.quotaLimit}` : "";
+
+        lines.push(`Quota: ${usage.quotaRemaining}${limit} left`);
+    }
+
+    return lines;
+}
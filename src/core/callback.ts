@@ -0,0 +1,116 @@
+/*******************************************************************************
+ * (c) Copyright, Real-Time Innovations, 2024.
+ * All rights reserved.
+ * No duplications, whole or partial, manual or electronic, may be made
+ * without express written permission.  Any such copies, or
+ * revisions thereof, must display this notice unaltered.
+ * This code contains trade secrets of Real-Time Innovations, Inc.
+ */
+
+/**
+ * The result of the login reported by the OAuth2 redirect to the callback
+ * server.
+ */
+export type CallbackResult =
+    | { kind: "code"; authCode: string; receivedState: string | null }
+    | {
+        kind: "error";
+        error: string;
+        description: string;
+        receivedState: string | null;
+    }
+    | { kind: "invalid" };
+
+/**
+ * Parses the query parameters of the OAuth2 redirect.
+ *
+ * @param params - The query parameters of the callback URL.
+ * @returns The authorization code, the error reported by the identity
+ * provider, or `invalid` if the URL has neither. The state must be checked
+ * for both the code and the error, so that other pages cannot end the
+ * login.
+ * @see https://datatracker.ietf.org/doc/html/rfc6749#section-4.1.2.1
+ */
+export function parseCallback(params: URLSearchParams): CallbackResult {
+    const error = params.get("error");
+    const authCode = params.get("code");
+
+    if (error) {
+        return {
+            kind: "error",
+            error: error,
+            description: params.get("error_description") || error,
+            receivedState: params.get("state"),
+        };
+    } else if (authCode) {
+        return {
+            kind: "code",
+            authCode: authCode,
+            receivedState: params.get("state"),
+        };
+    }
+
+    return { kind: "invalid" };
+}
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;")
+        .replace(/'/g, "&#39;");
+}
+
+/**
+ * Builds the page shown in the browser at the end of the login.
+ *
+ * @param success - Whether the login succeeded.
+ * @param message - The message to show. It is escaped.
+ * @returns The HTML page.
+ */
+export function getCallbackPage(success: boolean, message: string): string {
+    const title = success ? "Connext login successful" : "Connext login failed";
+    const color = success ? "#2e7d32" : "#c62828";
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${title}</title>
+<style>
+    body {
+        font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif;
+        background: #f5f6f8;
+        color: #1f2328;
+        display: flex;
+        align-items: center;
+        justify-content: center;
+        height: 100vh;
+        margin: 0;
+    }
+    main {
+        background: #ffffff;
+        border-top: 4px solid ${color};
+        border-radius: 6px;
+        box-shadow: 0 2px 8px rgba(0, 0, 0, 0.1);
+        max-width: 480px;
+        padding: 32px 40px;
+        text-align: center;
+    }
+    h1 {
+        color: ${color};
+        font-size: 1.4em;
+        margin-top: 0;
+    }
+</style>
+</head>
+<body>
+<main>
+    <h1>${title}</h1>
+    <p>${escapeHtml(message)}</p>
+</main>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,58 @@
+/*******************************************************************************
+ * (c) Copyright, Real-Time Innovations, 2024.
+ * All rights reserved.
+ * No duplications, whole or partial, manual or electronic, may be made
+ * without express written permission.  Any such copies, or
+ * revisions thereof, must display this notice unaltered.
+ * This code contains trade secrets of Real-Time Innovations, Inc.
+ */
+
+/**
+ * The environment variable with a personal access token.
+ */
+export const API_TOKEN_VARIABLE = "CONNEXT_API_TOKEN";
+
+/**
+ * The environment variables with the credentials of an Auth0 machine to
+ * machine application, for the client credentials grant.
+ */
+export const CLIENT_ID_VARIABLE = "CONNEXT_CLIENT_ID";
+export const CLIENT_SECRET_VARIABLE = "CONNEXT_CLIENT_SECRET";
+
+/**
+ * Credentials that do not need an interactive login, for CI jobs and
+ * scripted use.
+ */
+export type HeadlessCredentials =
+    | { kind: "apiToken"; token: string }
+    | { kind: "clientCredentials"; clientId: string; clientSecret: string };
+
+/**
+ * Reads the headless credentials from the environment variables. A personal
+ * access token takes precedence over the client credentials.
+ *
+ * @param env - The environment variables of the process.
+ * @returns The credentials, or undefined if none are set.
+ */
+export function getHeadlessCredentials(
+    env: NodeJS.ProcessEnv
+): HeadlessCredentials | undefined {
+    const token = env[API_TOKEN_VARIABLE];
+
+    if (token) {
+        return { kind: "apiToken", token: token };
+    }
+
+    const clientId = env[CLIENT_ID_VARIABLE];
+    const clientSecret = env[CLIENT_SECRET_VARIABLE];
+
+    if (clientId && clientSecret) {
+        return {
+            kind: "clientCredentials",
+            clientId: clientId,
+            clientSecret: clientSecret,
+        };
+    }
+
+    return undefined;
+}
@@ -0,0 +1,200 @@
+/*******************************************************************************
+ * (c) Copyright, Real-Time Innovations, 2024.
+ * All rights reserved.
+ * No duplications, whole or partial, manual or electronic, may be made
+ * without express written permission.  Any such copies, or
+ * revisions thereof, must display this notice unaltered.
+ * This code contains trade secrets of Real-Time Innovations, Inc.
+ */
+
+/**
+ * The name of the built-in environment, which uses the
+ * `connext.intelligencePlatformUrl` setting and the RTI login.
+ */
+export const DEFAULT_ENVIRONMENT_NAME = "default";
+
+/**
+ * The scopes of the Connext AI API granted to a session.
+ */
+export const CONNEXT_SCOPES = [
+    "ask:question",
+    "session:create",
+    "session:delete",
+    "session:update",
+];
+
+/**
+ * The Auth0 tenant and application used to log in to an environment.
+ */
+export interface AuthConfig {
+    domain: string;
+    clientId: string;
+    audience: string;
+}
+
+/**
+ * A Connext AI server and the identity provider that issues its tokens.
+ */
+export interface ConnextEnvironment {
+    name: string;
+    intelligencePlatformUrl: string;
+    auth: AuthConfig;
+    scopes: string[];
+}
+
+/**
+ * The login of the built-in environment. These fields are not considered
+ * sensitive information and can be stored directly in the source code.
+ */
+export const DEFAULT_AUTH_CONFIG: AuthConfig = {
+    audience: "https://chatbot.rti.com/api/v1",
+    clientId: "deY3Vcmm0MWQBCsJTrCy4fZTTUO7u9gF",
+    domain: "dev-6pfajgsd68a3srda.us.auth0.com",
+};
+
+function isNonEmptyString(value: any): value is string {
+    return typeof value === "string" && value.length > 0;
+}
+
+/**
+ * Validates an environment profile from the `connext.environments` setting.
+ * The login and the scopes default to the ones of the built-in environment.
+ *
+ * @param profile - The profile, as read from the settings.
+ * @returns The environment.
+ * @throws If a required field is missing or invalid.
+ */
+export function parseEnvironment(profile: any): ConnextEnvironment {
+    if (typeof profile !== "object" || profile === null) {
+        throw new Error("The environment must be an object.");
+    }
+
+    if (!isNonEmptyString(profile.name)) {
+        throw new Error("The environment has no name.");
+    }
+
+    if (profile.name === DEFAULT_ENVIRONMENT_NAME) {
+        throw new Error(
+            `The name '${DEFAULT_ENVIRONMENT_NAME}' is reserved for the built-in environment.`
+        );
+    }
+
+    if (!isNonEmptyString(profile.intelligencePlatformUrl)) {
+        throw new Error(
+            `The environment '${profile.name}' has no intelligencePlatformUrl.`
+        );
+    }
+
+    let auth = DEFAULT_AUTH_CONFIG;
+
+    if (profile.auth !== undefined) {
+        if (
+            !isNonEmptyString(profile.auth?.domain) ||
+            !isNonEmptyString(profile.auth?.clientId) ||
+            !isNonEmptyString(profile.auth?.audience)
+        ) {
+            throw new Error(
+                `The auth of the environment '${profile.name}' must have a domain, a clientId and an audience.`
+            );
+        }
+
+        auth = {
+            domain: profile.auth.domain,
+            clientId: profile.auth.clientId,
+            audience: profile.auth.audience,
+        };
+    }
+
+    let scopes = CONNEXT_SCOPES;
+
+    if (profile.scopes !== undefined) {
+        if (
+            !Array.isArray(profile.scopes) ||
+            !profile.scopes.every(isNonEmptyString)
+        ) {
+            throw new Error(
+                `The scopes of the environment '${profile.name}' must be a list of strings.`
+            );
+        }
+
+        scopes = profile.scopes;
+    }
+
+    return {
+        name: profile.name,
+        intelligencePlatformUrl: profile.intelligencePlatformUrl,
+        auth: auth,
+        scopes: scopes,
+    };
+}
+
+/**
+ * Builds the list of environments: the built-in one followed by the valid
+ * profiles. Invalid profiles and duplicated names are reported and skipped.
+ *
+ * @param defaultUrl - The URL of the built-in environment.
+ * @param profiles - The profiles from the `connext.environments` setting.
+ * @returns The environments and the errors found in the profiles.
+ */
+export function getEnvironments(
+    defaultUrl: string,
+    profiles: any[]
+): { environments: ConnextEnvironment[]; errors: string[] } {
+    const environments: ConnextEnvironment[] = [
+        {
+            name: DEFAULT_ENVIRONMENT_NAME,
+            intelligencePlatformUrl: defaultUrl,
+            auth: DEFAULT_AUTH_CONFIG,
+            scopes: CONNEXT_SCOPES,
+        },
+    ];
+    const errors: string[] = [];
+
+    for (const profile of profiles) {
+        try {
+            const environment = parseEnvironment(profile);
+
+            if (environments.some((e) => e.name === environment.name)) {
+                throw new Error(
+                    `The environment '${environment.name}' is defined more than once.`
+                );
+            }
+
+            environments.push(environment);
+        } catch (error: any) {
+            errors.push(error.message);
+        }
+    }
+
+    return { environments, errors };
+}
+
+/**
+ * Finds an environment by name.
+ *
+ * @param environments - The environments returned by `getEnvironments`.
+ * @param name - The name of the environment.
+ * @returns The environment, or the built-in one if there is no environment
+ * with that name.
+ */
+export function findEnvironment(
+    environments: ConnextEnvironment[],
+    name: string | undefined
+): ConnextEnvironment {
+    return environments.find((e) => e.name === name) ?? environments[0];
+}
+
+/**
+ * Returns the key under which a token of an environment is stored in the
+ * secret storage. The built-in environment uses the bare key, so that the
+ * logins from previous versions are kept.
+ *
+ * @param environment - The name of the environment.
+ * @param key - The name of the token, e.g. "accessToken".
+ * @returns The secret storage key.
+ */
+export function getSecretKey(environment: string, key: string): string {
+    return environment === DEFAULT_ENVIRONMENT_NAME
+        ? key
+        : `${environment}.${key}`;
+}
@@ -0,0 +1,1050 @@
+/*******************************************************************************
+ * (c) Copyright, Real-Time Innovations, 2024.
+ * All rights reserved.
+ * No duplications, whole or partial, manual or electronic, may be made
+ * without express written permission.  Any such copies, or
+ * revisions thereof, must display this notice unaltered.
+ * This code contains trade secrets of Real-Time Innovations, Inc.
+ */
+
+import * as path from "path";
+import * as fs from "fs";
+import { execFile } from "child_process";
+import * as xml2js from 'xml2js';
+
+import { CONNEXT_TOOLS } from "./tools";
+
+/**
+ * The state of the system used to discover the Connext installations. The
+ * extension passes the real process state; tests pass their own.
+ */
+export interface InstallationEnvironment {
+    /**
+     * The operating system, as in `process.platform`.
+     */
+    platform: NodeJS.Platform;
+
+    /**
+     * The environment variables, as in `process.env`. `HOME`,
+     * `USERPROFILE`, `ProgramFiles`, `NDDSHOME` and `SHELL` are used.
+     */
+    env: NodeJS.ProcessEnv;
+
+    /**
+     * Additional locations to search, such as the ones returned by
+     * `getSystemSearchPaths` and the ones configured by the user. Each
+     * location can be an installation directory or a directory that
+     * contains "rti_connext_dds-*" installations. A leading "~" is replaced
+     * with the home directory.
+     */
+    searchPaths?: string[];
+
+    /**
+     * The installation directory selected by the user as the default one.
+     */
+    defaultInstallationDir?: string;
+
+    /**
+     * The version selected by the user as the default one, used when no
+     * installation directory is selected. The first installation with this
+     * version is the default.
+     */
+    defaultVersion?: string;
+
+    /**
+     * The architecture selected by the user as the default one.
+     */
+    defaultArchitecture?: string;
+}
+
+/**
+ * A host or target package listed in `rti_versions.xml`.
+ */
+export interface InstalledPackage {
+    name: string;
+    version: string;
+
+    /**
+     * The target architecture, or undefined for host packages.
+     */
+    architecture: string | undefined;
+}
+
+/**
+ * The products installed in an installation, from `rti_versions.xml`.
+ */
+export interface ProductInventory {
+    baseVersion: string | undefined;
+    packages: InstalledPackage[];
+}
+
+/**
+ * Represents a system architecture with a name, environment setup command, and a default flag.
+ */
+export class Architecture {
+    /**
+     * Indicates whether this architecture is the default.
+     */
+    default: boolean;
+
+    /**
+     * The name of the architecture.
+     */
+    name: string;
+
+    /**
+     * The command to set up the environment for this architecture.
+     */
+    setEnvCmd: string;
+
+    /**
+     * The `rtisetenv_<arch>` script run to resolve the environment of the
+     * tools: the bash script, or the batch file on Windows.
+     */
+    envScript: string | undefined;
+
+    /**
+     * The environment variables produced by `envScript`, resolved once by
+     * `resolveArchitectureEnvironment`.
+     */
+    environment: NodeJS.ProcessEnv | undefined;
+
+    /**
+     * Creates an instance of the Architecture class.
+     * @param name - The name of the architecture.
+     * @param setEnvCmd - The command to set up the environment for this architecture.
+     * @param defaultArch - Indicates whether this architecture is the default.
+     * @param envScript - The script that sets up the environment of the tools.
+     */
+    constructor(
+        name: string,
+        setEnvCmd: string,
+        defaultArch: boolean = false,
+        envScript: string | undefined = undefined
+    ) {
+        this.name = name;
+        this.setEnvCmd = setEnvCmd;
+        this.default = defaultArch;
+        this.envScript = envScript;
+        this.environment = undefined;
+    }
+}
+
+/**
+ * Represents an installation with a specified directory and supported architectures.
+ */
+export class Installation {
+    /**
+     * Indicates whether this installation is the default one.
+     */
+    default: boolean;
+
+    /**
+     * The directory where the installation is located.
+     */
+    directory: string;
+
+    /**
+     * The version of the installation.
+     */
+    version: string | undefined;
+
+    /**
+     * The architectures supported by this installation.
+     */
+    architectures: Architecture[];
+
+    /**
+     * The host and target packages installed, from `rti_versions.xml`.
+     */
+    packages: InstalledPackage[];
+
+    /**
+     * Creates an instance of Installation.
+     * @param directory - The directory where the installation is located.
+     * @param version - The version of the installation.
+     * @param architectures - The architectures supported by this installation.
+     * @param defaultInstallation - Indicates whether this installation is the default one.
+     * @param packages - The host and target packages installed.
+     */
+    constructor(
+        directory: string,
+        version: string | undefined,
+        architectures: Architecture[],
+        defaultInstallation: boolean = false,
+        packages: InstalledPackage[] = []
+    ) {
+        this.directory = directory.replace(/\\/g, "/");
+        this.version = version;
+        this.architectures = architectures;
+        this.default = defaultInstallation;
+        this.packages = packages;
+    }
+
+    /**
+     * Retrieves the names of the architectures supported by this installation.
+     * @returns An array of architecture names.
+     */
+    architecture_names(): string[] {
+        let names: string[] = [];
+
+        for (let arch of this.architectures) {
+            names.push(arch.name);
+        }
+
+        return names;
+    }
+
+    /**
+     * Retrieves the packages that apply to an architecture: the host
+     * packages and the target packages of that architecture.
+     * @param architecture - The name of the architecture.
+     * @returns The packages.
+     */
+    packagesFor(architecture: string): InstalledPackage[] {
+        return this.packages.filter(
+            (p) => p.architecture === undefined || p.architecture === architecture
+        );
+    }
+}
+
+/**
+ * Returns the text of an element parsed by xml2js, which may be a string, an
+ * array of elements or an object with attributes.
+ */
+function getElementText(value: any): string | undefined {
+    if (Array.isArray(value)) {
+        return getElementText(value[0]);
+    } else if (typeof value === "string") {
+        return value.trim() || undefined;
+    } else if (typeof value === "object" && value !== null && typeof value._ === "string") {
+        return value._.trim() || undefined;
+    }
+
+    return undefined;
+}
+
+/**
+ * Collects the packages in an element of `rti_versions.xml`. An element with
+ * a version is a package, named after its `name` child or attribute, or
+ * after its tag. `architecture` elements group the packages of a target.
+ *
+ * @param element - The element, as parsed by xml2js.
+ * @param tag - The tag of the element.
+ * @param architecture - The target architecture of the packages, if any.
+ * @param packages - The list to add the packages to.
+ * @param depth - The nesting depth, to stop at unexpected structures.
+ */
+function collectPackages(
+    element: any,
+    tag: string,
+    architecture: string | undefined,
+    packages: InstalledPackage[],
+    depth: number
+) {
+    if (typeof element !== "object" || element === null || depth > 4) {
+        return;
+    }
+
+    const version =
+        getElementText(element.version) ?? getElementText(element.$?.version);
+
+    if (version !== undefined) {
+        packages.push({
+            name:
+                getElementText(element.name) ??
+                getElementText(element.$?.name) ??
+                tag.replace(/_/g, " "),
+            version: version,
+            architecture: architecture,
+        });
+        return;
+    }
+
+    if (tag === "architecture" || tag === "target") {
+        architecture =
+            getElementText(element.$?.name) ??
+            getElementText(element.$?.architecture) ??
+            getElementText(element.name) ??
+            getElementText(element.architecture) ??
+            architecture;
+    }
+
+    for (const [childTag, children] of Object.entries(element)) {
+        if (childTag === "$" || childTag === "_" || !Array.isArray(children)) {
+            continue;
+        }
+
+        for (const child of children) {
+            collectPackages(child, childTag, architecture, packages, depth + 1);
+        }
+    }
+}
+
+/**
+ * Parses the product inventory in `rti_versions.xml`: the base version and
+ * the host and target packages installed, including add-ons such as the
+ * Security Plugins or Routing Service.
+ *
+ * @param xmlData - The contents of `rti_versions.xml`.
+ * @returns The inventory. It is empty if the file cannot be parsed.
+ */
+export function parseProductInventory(xmlData: string): ProductInventory {
+    let inventory: ProductInventory = { baseVersion: undefined, packages: [] };
+    const parser = new xml2js.Parser({ explicitArray: true });
+
+    // The parser calls the callback synchronously
+    parser.parseString(xmlData, (err, result) => {
+        if (err) {
+            console.error('Error parsing XML:', err);
+            return;
+        }
+
+        const host = result?.rti?.host?.[0];
+
+        inventory.baseVersion = getElementText(host?.base_version);
+
+        collectPackages(host, "host", undefined, inventory.packages, 0);
+
+        for (const target of result?.rti?.target ?? []) {
+            collectPackages(target, "target", undefined, inventory.packages, 0);
+        }
+    });
+
+    return inventory;
+}
+
+/**
+ * Synchronously reads the product inventory from an XML file.
+ *
+ * @param filePath - The path to the XML file containing the product version information.
+ * @returns The inventory. It is empty if the file cannot be read.
+ */
+function getProductInventorySync(filePath: string): ProductInventory {
+    try {
+        return parseProductInventory(fs.readFileSync(filePath, 'utf8'));
+    } catch (err) {
+        return { baseVersion: undefined, packages: [] };
+    }
+}
+
+/**
+ * Finds the architecture directories within the given installation path.
+ *
+ * @param installationPath - The path to the installation directory.
+ * @returns An array of directory names that do not start with "java", or `undefined` if an error occurs.
+ */
+function findArchitecture(installationPath: string): string[] | undefined {
+    const libPath = path.join(installationPath, "lib");
+
+    try {
+        // Read the contents of the lib directory synchronously
+        const files = fs.readdirSync(libPath);
+
+        // Filter the files to find the directories that don't start with "java"
+        const matchingDirs = files.filter((file) => {
+            const fullPath = path.join(libPath, file);
+            try {
+                return (
+                    fs.statSync(fullPath).isDirectory() &&
+                    !file.startsWith("java")
+                );
+            } catch (e) {
+                return false;
+            }
+        });
+
+        let result: string[] = [];
+
+        for (let dir of matchingDirs) {
+            result.push(dir);
+        }
+
+        return result;
+    } catch (err) {
+        return undefined; // Return undefined if there is an error reading the directory
+    }
+}
+
+/**
+ * Returns the common system locations of RTI Connext DDS installations,
+ * besides the default one of each platform.
+ *
+ * @param platform - The operating system, as in `process.platform`.
+ * @param env - The environment variables, as in `process.env`.
+ * @returns The directories to search.
+ */
+export function getSystemSearchPaths(
+    platform: NodeJS.Platform,
+    env: NodeJS.ProcessEnv
+): string[] {
+    let searchPaths: (string | undefined)[] = [];
+
+    if (platform === "linux") {
+        searchPaths = ["/opt", "/opt/rti", "/usr/local"];
+    } else if (platform === "darwin") {
+        searchPaths = [
+            env.HOME,
+            env.HOME ? path.join(env.HOME, "Applications") : undefined,
+            "/opt",
+            "/usr/local",
+        ];
+    } else if (platform === "win32") {
+        searchPaths = [env["ProgramFiles(x86)"], env.USERPROFILE];
+    }
+
+    return searchPaths.filter((searchPath): searchPath is string => !!searchPath);
+}
+
+/**
+ * Returns the canonical path of a directory, following symbolic links.
+ *
+ * @param directory - The directory.
+ * @returns The real path, or the directory itself if it does not exist.
+ */
+function getRealPath(directory: string): string {
+    try {
+        return fs.realpathSync(directory);
+    } catch (err) {
+        return directory;
+    }
+}
+
+/**
+ * Finds the installations in a search location.
+ *
+ * @param searchPath - An installation directory, or a directory that
+ * contains "rti_connext_dds-*" installations.
+ * @returns The installation directories. Symbolic links are followed.
+ */
+function findInstallationsInDirectory(searchPath: string): string[] {
+    if (fs.existsSync(path.join(searchPath, "rti_versions.xml"))) {
+        return [searchPath];
+    }
+
+    try {
+        // Read the contents of the directory synchronously
+        const files = fs.readdirSync(searchPath);
+
+        // Filter the files to find directories that start with
+        // "rti_connext_dds-". statSync follows the symbolic links.
+        return files
+            .filter((file) => {
+                const fullPath = path.join(searchPath, file);
+                try {
+                    return (
+                        fs.statSync(fullPath).isDirectory() &&
+                        file.startsWith("rti_connext_dds-")
+                    );
+                } catch (e) {
+                    return false;
+                }
+            })
+            .map((file) => path.join(searchPath, file));
+    } catch (err) {
+        return [];
+    }
+}
+
+/**
+ * Returns the locations searched for RTI Connext DDS installations: the
+ * default parent directory of the platform followed by the `searchPaths` of
+ * the environment, with a leading "~" replaced with the home directory.
+ *
+ * The default parent directory is:
+ * - On Linux, the user's home directory.
+ * - On macOS, the "/Applications" directory.
+ * - On Windows, the "Program Files" directory.
+ *
+ * @param environment - The platform and environment variables to search with.
+ * @returns The directories to search.
+ */
+export function getInstallationSearchPaths(
+    environment: InstallationEnvironment
+): string[] {
+    const env = environment.env;
+    const homeDir = env.HOME || env.USERPROFILE;
+    let parentDir: string | undefined = undefined;
+
+    if (environment.platform === "linux") {
+        parentDir = homeDir;
+    } else if (environment.platform === "darwin") {
+        parentDir = "/Applications";
+    } else if (environment.platform === "win32") {
+        parentDir = env.ProgramFiles;
+    }
+
+    let searchPaths: string[] = [];
+
+    if (parentDir) {
+        searchPaths.push(parentDir);
+    }
+
+    for (let searchPath of environment.searchPaths ?? []) {
+        searchPaths.push(expandHomeDirectory(searchPath, env));
+    }
+
+    return searchPaths;
+}
+
+/**
+ * Replaces a leading "~" in a path with the home directory.
+ *
+ * @param directory - The path to expand.
+ * @param env - The environment variables with the home directory.
+ * @returns The expanded path.
+ */
+function expandHomeDirectory(
+    directory: string,
+    env: NodeJS.ProcessEnv
+): string {
+    const homeDir = env.HOME || env.USERPROFILE;
+
+    if (homeDir && (directory === "~" || /^~[\\/]/.test(directory))) {
+        return path.join(homeDir, directory.substring(1));
+    }
+
+    return directory;
+}
+
+/**
+ * Finds the RTI Connext DDS installation directories on the system.
+ *
+ * This function searches for directories that start with "rti_connext_dds-"
+ * in the locations returned by `getInstallationSearchPaths`. Additionally, if
+ * the `NDDSHOME` environment variable is set, its value is included in the
+ * result, and so is the installation directory selected by the user when it
+ * exists. Installations found more than once, for example through a symbolic
+ * link, are only included once.
+ *
+ * @param environment - The platform and environment variables to search with.
+ * @returns {string[]} An array of paths to the RTI Connext DDS directories.
+ */
+function findRTIConnextDDSDirectory(
+    environment: InstallationEnvironment
+): string[] {
+    const env = environment.env;
+    const searchPaths = getInstallationSearchPaths(environment);
+
+    let candidates: string[] = [];
+
+    for (let searchPath of searchPaths) {
+        candidates.push(...findInstallationsInDirectory(searchPath));
+    }
+
+    if (env.NDDSHOME) {
+        candidates.push(env.NDDSHOME);
+    }
+
+    if (environment.defaultInstallationDir) {
+        const selectedDir = expandHomeDirectory(
+            environment.defaultInstallationDir,
+            env
+        );
+
+        if (fs.existsSync(selectedDir)) {
+            candidates.push(selectedDir);
+        }
+    }
+
+    let result: string[] = [];
+    let realPaths = new Set<string>();
+
+    for (let dir of candidates) {
+        const realPath = getRealPath(dir);
+
+        /* Push if not present */
+        if (!realPaths.has(realPath)) {
+            realPaths.add(realPath);
+            result.push(dir);
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Discovers the RTI Connext DDS installations.
+ *
+ * This function searches for RTI Connext DDS installation directories and
+ * their corresponding architectures. It constructs an array of `Installation`
+ * objects, each containing the directory path and an array of `Architecture`
+ * objects with the appropriate environment setup commands.
+ *
+ * @param environment - The platform, environment variables and user
+ * selection to discover the installations with.
+ * @returns {Installation[]} An array of `Installation` objects representing
+ * the found RTI Connext DDS installations. If no installations are found,
+ * an empty array is returned.
+ */
+export function discoverInstallations(
+    environment: InstallationEnvironment
+): Installation[] {
+    const platform = environment.platform;
+    let installations: Installation[] = [];
+    let installationDirectories = findRTIConnextDDSDirectory(environment);
+
+    if (installationDirectories.length == 0) {
+        return [];
+    }
+
+    const inventories = new Map<string, ProductInventory>();
+
+    for (let dir of installationDirectories) {
+        inventories.set(
+            dir,
+            getProductInventorySync(path.join(dir, "rti_versions.xml"))
+        );
+    }
+
+    // Compare the real paths, so that a default selected through a
+    // symbolic link is found
+    const selectedDir = environment.defaultInstallationDir
+        ? getRealPath(
+            expandHomeDirectory(
+                environment.defaultInstallationDir,
+                environment.env
+            )
+        )
+        : undefined;
+    const nddshome = environment.env.NDDSHOME
+        ? getRealPath(environment.env.NDDSHOME)
+        : undefined;
+
+    // The installation selected by the user, by directory or by version,
+    // takes precedence over NDDSHOME and over a single installation
+    let defaultDir = installationDirectories.find(
+        (dir) => selectedDir !== undefined && selectedDir === getRealPath(dir)
+    );
+
+    if (defaultDir === undefined && environment.defaultVersion !== undefined) {
+        defaultDir = installationDirectories.find(
+            (dir) =>
+                inventories.get(dir)?.baseVersion === environment.defaultVersion
+        );
+    }
+
+    if (defaultDir === undefined) {
+        defaultDir = installationDirectories.find(
+            (dir) => nddshome !== undefined && nddshome === getRealPath(dir)
+        );
+    }
+
+    if (defaultDir === undefined && installationDirectories.length === 1) {
+        defaultDir = installationDirectories[0];
+    }
+
+    for (let dir of installationDirectories) {
+        let architecturesNames = findArchitecture(dir);
+
+        let inventory = inventories.get(dir)!;
+        let version = inventory.baseVersion;
+
+        let defaultInstallation = dir === defaultDir;
+
+        if (architecturesNames == undefined || architecturesNames.length == 0) {
+            installations.push(
+                new Installation(dir, version, [], defaultInstallation, inventory.packages)
+            );
+            continue;
+        }
+
+        if (
+            platform === "linux" ||
+            platform === "darwin" ||
+            platform === "win32"
+        ) {
+            let shellCmd = environment.env.SHELL;
+
+            if (shellCmd == undefined) {
+                shellCmd = "/bin/bash";
+            }
+
+            let shell = "bash";
+
+            if (shellCmd.endsWith("zsh")) {
+                shell = "zsh";
+            } else if (shellCmd.endsWith("tcsh")) {
+                shell = "tcsh";
+            } else if (platform === "win32") {
+                shell = "bat";
+            }
+
+            let architectures: Architecture[] = [];
+
+            for (let arch of architecturesNames) {
+                let setEnvCmd = undefined;
+                let envScript = undefined;
+
+                if (platform === "win32") {
+                    setEnvCmd = `"${dir}/resource/scripts/rtisetenv_${arch}"`;
+                    envScript = `${dir}/resource/scripts/rtisetenv_${arch}.bat`;
+                } else {
+                    setEnvCmd = `source ${dir}/resource/scripts/rtisetenv_${arch}.${shell}`;
+                    envScript = `${dir}/resource/scripts/rtisetenv_${arch}.bash`;
+                }
+
+                let defaultArch = false;
+
+                if (defaultInstallation) {
+                    if (environment.defaultArchitecture == arch) {
+                        defaultArch = true;
+                    } else if (architecturesNames.length == 1) {
+                        defaultArch = true;
+                    }
+                }
+
+                architectures.push(
+                    new Architecture(arch, setEnvCmd, defaultArch, envScript)
+                );
+            }
+
+            installations.push(
+                new Installation(
+                    dir,
+                    version,
+                    architectures,
+                    defaultInstallation,
+                    inventory.packages
+                )
+            );
+        }
+    }
+
+    return installations;
+}
+
+/**
+ * Retrieves the default installation and its default architecture from a list of installations.
+ *
+ * @param installations - An array of `Installation` objects to search through.
+ * @returns A tuple containing the default `Installation` and its default `Architecture`,
+ *          or `undefined` if no default installation or architecture is found.
+ */
+export function getDefaultInstallation(
+    installations: Installation[]
+): [Installation, Architecture] | undefined {
+    for (let installation of installations) {
+        if (installation.default) {
+            for (let arch of installation.architectures) {
+                if (arch.default) {
+                    return [installation, arch];
+                }
+            }
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * Compares two lists of installations.
+ *
+ * @param previous - The installations found before.
+ * @param current - The installations found now.
+ * @returns The installations and architectures that appeared and
+ * disappeared, described as "directory" or "directory (architecture)".
+ */
+export function compareInstallations(
+    previous: Installation[],
+    current: Installation[]
+): { added: string[]; removed: string[] } {
+    const describe = (installations: Installation[], others: Installation[]) => {
+        let result: string[] = [];
+
+        for (let installation of installations) {
+            const other = others.find(
+                (i) => i.directory === installation.directory
+            );
+
+            if (other === undefined) {
+                result.push(installation.directory);
+                continue;
+            }
+
+            for (let arch of installation.architecture_names()) {
+                if (!other.architecture_names().includes(arch)) {
+                    result.push(`${installation.directory} (${arch})`);
+                }
+            }
+        }
+
+        return result;
+    };
+
+    return {
+        added: describe(current, previous),
+        removed: describe(previous, current),
+    };
+}
+
+/**
+ * Finds the known tools in the `bin` directory of an installation.
+ *
+ * @param directory - The installation directory.
+ * @param platform - The operating system, as in `process.platform`. On
+ * Windows the tools are batch files.
+ * @returns The executable names and the display names of the tools found.
+ */
+export function findInstalledTools(
+    directory: string,
+    platform: NodeJS.Platform
+): { executable: string; name: string }[] {
+    const extension = platform === "win32" ? ".bat" : "";
+
+    return CONNEXT_TOOLS
+        .filter((tool) =>
+            fs.existsSync(path.join(directory, "bin", tool.executable + extension))
+        )
+        .map((tool) => ({ executable: tool.executable, name: tool.name }));
+}
+
+/**
+ * A change that the environment script of an architecture makes to an
+ * environment variable.
+ */
+export interface EnvironmentChange {
+    /**
+     * The name of the variable.
+     */
+    name: string;
+
+    /**
+     * The new value, or the paths added in front of the current value.
+     */
+    value: string;
+
+    /**
+     * Whether the value is added in front of the current value, separated
+     * by the path delimiter of the platform, instead of replacing it.
+     */
+    prepend: boolean;
+}
+
+/**
+ * Returns the changes to the environment variables made by the
+ * `rtisetenv_<arch>` script of an architecture: `NDDSHOME` is the
+ * installation directory and the `bin` and library directories are added
+ * to the `PATH` and to the library path of the platform.
+ *
+ * @param directory - The installation directory.
+ * @param architecture - The name of the architecture.
+ * @param platform - The operating system, as in `process.platform`.
+ * @returns The changes to the environment variables.
+ */
+export function getEnvironmentChanges(
+    directory: string,
+    architecture: string,
+    platform: NodeJS.Platform
+): EnvironmentChange[] {
+    const delimiter = platform === "win32" ? ";" : ":";
+    const binDir = path.join(directory, "bin");
+    const libDir = path.join(directory, "lib", architecture);
+
+    let changes: EnvironmentChange[] = [
+        { name: "NDDSHOME", value: directory, prepend: false },
+    ];
+
+    if (platform === "win32") {
+        changes.push({
+            name: "PATH",
+            value: binDir + delimiter + libDir,
+            prepend: true,
+        });
+    } else {
+        changes.push({ name: "PATH", value: binDir, prepend: true });
+        changes.push({
+            name:
+                platform === "darwin"
+                    ? "DYLD_LIBRARY_PATH"
+                    : "LD_LIBRARY_PATH",
+            value: libDir,
+            prepend: true,
+        });
+    }
+
+    return changes;
+}
+
+/**
+ * Applies changes to a copy of a set of environment variables.
+ *
+ * @param env - The environment variables to start from.
+ * @param changes - The changes to apply.
+ * @param platform - The operating system, as in `process.platform`. On
+ * Windows the names of the variables are case insensitive.
+ * @returns The new environment variables.
+ */
+export function applyEnvironmentChanges(
+    env: NodeJS.ProcessEnv,
+    changes: EnvironmentChange[],
+    platform: NodeJS.Platform
+): NodeJS.ProcessEnv {
+    const delimiter = platform === "win32" ? ";" : ":";
+    let result: NodeJS.ProcessEnv = { ...env };
+
+    for (const change of changes) {
+        // On Windows, keep the existing spelling, such as "Path"
+        const name =
+            platform === "win32"
+                ? Object.keys(result).find(
+                    (key) => key.toUpperCase() === change.name.toUpperCase()
+                ) ?? change.name
+                : change.name;
+        const current = result[name];
+
+        result[name] =
+            change.prepend && current
+                ? change.value + delimiter + current
+                : change.value;
+    }
+
+    return result;
+}
+
+/**
+ * The line printed between the output of an environment script and the
+ * environment variables, to tell them apart.
+ */
+const ENVIRONMENT_MARKER = "__CONNEXT_ENVIRONMENT__";
+
+/**
+ * Returns the command that runs an environment script and prints the
+ * resulting environment variables. The script is run with bash, or with
+ * `cmd.exe` on Windows, whatever the shell of the user is. The path of the
+ * script is passed as an argument on Linux and macOS, so it is not quoted.
+ *
+ * The variables are printed even if the last command of the script fails.
+ * On Linux and macOS they are separated by null characters, because their
+ * values, and the exported bash functions, can span several lines.
+ *
+ * @param script - The `rtisetenv_<arch>` script.
+ * @param platform - The operating system, as in `process.platform`.
+ * @param env - The environment variables, to find `cmd.exe`.
+ * @returns The executable, its arguments and whether the arguments must be
+ * passed to `cmd.exe` unchanged.
+ */
+export function getEnvironmentCaptureCommand(
+    script: string,
+    platform: NodeJS.Platform,
+    env: NodeJS.ProcessEnv
+): { file: string; args: string[]; windowsVerbatimArguments: boolean } {
+    if (platform === "win32") {
+        return {
+            file: env.ComSpec || "cmd.exe",
+            args: [
+                "/d",
+                "/s",
+                "/c",
+                `""${script}" >nul 2>&1 & echo ${ENVIRONMENT_MARKER}& set"`,
+            ],
+            windowsVerbatimArguments: true,
+        };
+    }
+
+    return {
+        file: "bash",
+        args: [
+            "-c",
+            `source "$0" >/dev/null 2>&1; printf '${ENVIRONMENT_MARKER}\\0'; env -0`,
+            script,
+        ],
+        windowsVerbatimArguments: false,
+    };
+}
+
+/**
+ * Parses the output of the command returned by
+ * `getEnvironmentCaptureCommand`. The variables follow the marker, separated
+ * by null characters, or by new lines on Windows. Entries that are not
+ * variables, such as exported bash functions, are skipped.
+ *
+ * @param output - The output of the command.
+ * @returns The environment variables, or undefined if the script failed.
+ */
+export function parseEnvironmentOutput(
+    output: string
+): NodeJS.ProcessEnv | undefined {
+    const start = output.indexOf(ENVIRONMENT_MARKER);
+
+    if (start === -1) {
+        return undefined;
+    }
+
+    const variables = output.slice(start + ENVIRONMENT_MARKER.length);
+    const entries = variables.startsWith("\0")
+        ? variables.split("\0")
+        : variables.split(/\r?\n/);
+
+    let env: NodeJS.ProcessEnv = {};
+
+    for (const entry of entries) {
+        const match = /^([A-Za-z_][A-Za-z0-9_()]*)=([\s\S]*)$/.exec(entry);
+
+        if (match !== null) {
+            env[match[1]] = match[2];
+        }
+    }
+
+    return env;
+}
+
+/**
+ * Resolves the environment variables produced by the environment script of
+ * an architecture. The script is only run the first time; the result is
+ * kept in `architecture.environment`.
+ *
+ * @param architecture - The architecture.
+ * @param platform - The operating system, as in `process.platform`.
+ * @param env - The environment variables to run the script with.
+ * @returns The environment variables to run the tools with.
+ * @throws If the architecture has no script or the script fails.
+ */
+export async function resolveArchitectureEnvironment(
+    architecture: Architecture,
+    platform: NodeJS.Platform,
+    env: NodeJS.ProcessEnv
+): Promise<NodeJS.ProcessEnv> {
+    if (architecture.environment !== undefined) {
+        return architecture.environment;
+    }
+
+    const script = architecture.envScript;
+
+    if (script === undefined || !fs.existsSync(script)) {
+        throw new Error(
+            `The environment script of ${architecture.name} was not found.`
+        );
+    }
+
+    const command = getEnvironmentCaptureCommand(script, platform, env);
+
+    const output = await new Promise<string>((resolve, reject) => {
+        execFile(
+            command.file,
+            command.args,
+            {
+                env: env,
+                windowsVerbatimArguments: command.windowsVerbatimArguments,
+                maxBuffer: 10 * 1024 * 1024,
+            },
+            (error, stdout) => {
+                if (error) {
+                    reject(error);
+                } else {
+                    resolve(stdout);
+                }
+            }
+        );
+    });
+
+    const environment = parseEnvironmentOutput(output);
+
+    if (environment === undefined) {
+        throw new Error(`Error running ${script}.`);
+    }
+
+    architecture.environment = environment;
+
+    return environment;
+}
@@ -0,0 +1,128 @@
+/*******************************************************************************
+ * (c) Copyright, Real-Time Innovations, 2024.
+ * All rights reserved.
+ * No duplications, whole or partial, manual or electronic, may be made
+ * without express written permission.  Any such copies, or
+ * revisions thereof, must display this notice unaltered.
+ * This code contains trade secrets of Real-Time Innovations, Inc.
+ */
+
+/**
+ * Splits the output of a process into lines and keeps the last ones.
+ *
+ * The output arrives in chunks that may end in the middle of a line, so the
+ * incomplete line is kept until the rest of it arrives or the process ends.
+ */
+export class OutputTail {
+    private lines: string[] = [];
+    private partial = "";
+
+    /**
+     * Creates an instance of OutputTail.
+     * @param maxLines - The number of lines to keep.
+     */
+    constructor(private maxLines: number) {}
+
+    /**
+     * Adds a chunk of output.
+     * @param chunk - The chunk.
+     * @returns The lines completed by the chunk.
+     */
+    append(chunk: string): string[] {
+        const parts = (this.partial + chunk).split(/\r?\n/);
+
+        this.partial = parts.pop() ?? "";
+        this.push(parts);
+
+        return parts;
+    }
+
+    /**
+     * Completes the last line, when the process ends without a final new
+     * line.
+     * @returns The completed line, if any.
+     */
+    flush(): string[] {
+        if (this.partial === "") {
+            return [];
+        }
+
+        const lines = [this.partial];
+
+        this.partial = "";
+        this.push(lines);
+
+        return lines;
+    }
+
+    /**
+     * The last lines of the output, oldest first.
+     */
+    get lastLines(): string[] {
+        return [...this.lines];
+    }
+
+    private push(lines: string[]) {
+        this.lines.push(...lines);
+
+        if (this.lines.length > this.maxLines) {
+            this.lines.splice(0, this.lines.length - this.maxLines);
+        }
+    }
+}
+
+/**
+ * Describes how a tool process ended.
+ *
+ * @param name - The name of the tool.
+ * @param code - The exit code, or null if the process was killed.
+ * @param signal - The signal that killed the process, if any.
+ * @returns The description, or undefined if the tool ended successfully.
+ */
+export function describeExit(
+    name: string,
+    code: number | null,
+    signal: string | null
+): string | undefined {
+    if (code === 0) {
+        return undefined;
+    }
+
+    if (code !== null) {
+        return `${name} exited with code ${code}.`;
+    }
+
+    return `${name} was terminated by ${signal ?? "an unknown signal"}.`;
+}
+
+/**
+ * The characters that `cmd.exe` interprets, escaped with `^`.
+ */
+const CMD_METACHARACTERS = /([()\][%!^"`<>&|;, *?])/g;
+
+/**
+ * Builds the command line that runs a batch file through `cmd.exe /d /s /c`,
+ * so that no character of the arguments is interpreted by the shell.
+ *
+ * Each argument is quoted for the C runtime, then its shell metacharacters
+ * are escaped twice, because `cmd.exe` parses the arguments of a batch file
+ * once more when the batch file uses them.
+ *
+ * @param file - The batch file, with or without its directory and extension.
+ * @param args - The arguments of the batch file.
+ * @returns The command line.
+ */
+export function getBatchCommandLine(file: string, args: string[]): string {
+    const escape = (text: string) => text.replace(CMD_METACHARACTERS, "^$1");
+
+    const quotedArgs = args.map((arg) => {
+        // Double the backslashes before a quote or the closing quote
+        const quoted = `"${arg
+            .replace(/(\\*)"/g, '$1$1\\"')
+            .replace(/(\\*)$/, "$1$1")}"`;
+
+        return escape(escape(quoted));
+    });
+
+    return [escape(file), ...quotedArgs].join(" ");
+}
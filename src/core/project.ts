@@ -0,0 +1,219 @@
+/*******************************************************************************
+ * (c) Copyright, Real-Time Innovations, 2024.
+ * All rights reserved.
+ * No duplications, whole or partial, manual or electronic, may be made
+ * without express written permission.  Any such copies, or
+ * revisions thereof, must display this notice unaltered.
+ * This code contains trade secrets of Real-Time Innovations, Inc.
+ */
+
+export interface LanguageInfo {
+    name: string;
+    extension: string;
+    headerExtension: string;
+    markupCode: string;
+}
+
+/**
+ * Retrieves information about a given programming language.
+ *
+ * @param language - The name of the programming language.
+ * @returns An object containing the language name, file extension, header file extension, and a markup code string, or `undefined` if the language is not recognized.
+ */
+export function getLanguageInfo(language: string): LanguageInfo | undefined {
+    const extensionMap: {
+        [key: string]: {
+            extension: string;
+            headerExtension: string;
+            markupCode: string;
+        };
+    } = {
+        Java: {
+            extension: "java",
+            headerExtension: "java",
+            markupCode: "java",
+        },
+        "C#": { extension: "cs", headerExtension: "cs", markupCode: "cs" },
+        C: { extension: "c", headerExtension: "h", markupCode: "c" },
+        "C++98": { extension: "cxx", headerExtension: "h", markupCode: "cpp" },
+        "C++11": {
+            extension: "cxx",
+            headerExtension: "hpp",
+            markupCode: "cpp",
+        },
+        Python: {
+            extension: "py",
+            headerExtension: "py",
+            markupCode: "python",
+        },
+    };
+
+    if (language in extensionMap) {
+        return {
+            name: language,
+            extension: extensionMap[language].extension,
+            headerExtension: extensionMap[language].headerExtension,
+            markupCode: extensionMap[language].markupCode,
+        };
+    }
+
+    return undefined;
+}
+
+/**
+ * Returns a string representing a platform.
+ *
+ * @param platform - The operating system, as in `process.platform`.
+ * @returns {string} - The platform string, which can be "windows", "mac", "linux", or "unknown".
+ */
+export function getPlatformName(platform: NodeJS.Platform): string {
+    if (platform === "win32") {
+        return "windows";
+    } else if (platform === "darwin") {
+        return "mac";
+    } else if (platform === "linux") {
+        return "linux";
+    } else {
+        return "unknown";
+    }
+}
+
+/**
+ * Checks whether a language names its example files in snake case
+ * (`<type>_publisher.<ext>`) rather than in Pascal case
+ * (`<Type>Publisher.<ext>`).
+ */
+function usesSnakeCaseExampleFiles(language: string): boolean {
+    return (
+        language === "Python" ||
+        language === "C" ||
+        language === "C++98" ||
+        language === "C++11"
+    );
+}
+
+/**
+ * Finds the publisher, subscriber, and type files among the files generated
+ * by rtiddsgen for an example.
+ *
+ * @param fileNames - The paths of the generated files, relative to the example directory.
+ * @param language - The programming language of the example.
+ * @returns An array containing the paths of the publisher, subscriber, and type files.
+ * @throws Will throw an error if the language is unexpected or if the publisher or subscriber files cannot be found.
+ */
+export function findPublisherSubscriberAndTypeFiles(
+    fileNames: string[],
+    language: string
+): string[] {
+    let languageInfo = getLanguageInfo(language);
+
+    if (languageInfo === undefined) {
+        throw new Error("Unexpected language.");
+    }
+
+    const publisherSuffix = usesSnakeCaseExampleFiles(language)
+        ? `_publisher.${languageInfo.extension}`
+        : `Publisher.${languageInfo.extension}`;
+    const subscriberSuffix = usesSnakeCaseExampleFiles(language)
+        ? `_subscriber.${languageInfo.extension}`
+        : `Subscriber.${languageInfo.extension}`;
+
+    const publisherFile = fileNames.find((fileName) =>
+        fileName.endsWith(publisherSuffix)
+    );
+    const subscriberFile = fileNames.find((fileName) =>
+        fileName.endsWith(subscriberSuffix)
+    );
+
+    if (publisherFile === undefined || subscriberFile === undefined) {
+        throw new Error(`Error finding ${language} files.`);
+    }
+
+    const typeFileName = publisherFile.replace(
+        publisherSuffix,
+        `.${languageInfo.headerExtension}`
+    );
+
+    return [publisherFile, subscriberFile, typeFileName];
+}
+
+/**
+ * Returns the data used to render the CMake templates of an example.
+ *
+ * @param configurationVariables - An object containing configuration variables.
+ * @param platform - The operating system, as in `process.platform`.
+ * @param cmakeGenerator - The generator from the `cmake.generator` setting, if set.
+ * @returns The template data.
+ */
+export function getCMakeTemplateData(
+    configurationVariables: any,
+    platform: NodeJS.Platform,
+    cmakeGenerator: string | undefined
+) {
+    let idl_file_name_no_ext = configurationVariables.idl_file_name.replace(
+        ".idl",
+        ""
+    );
+
+    let data = {
+        cmake_version: "3.11",
+        workspace_name: configurationVariables.workspace_name,
+        connext_version: configurationVariables.connext_version,
+        connext_path: configurationVariables.connext_path,
+        language: configurationVariables.language,
+        idl_file_name: idl_file_name_no_ext,
+        connext_libs: "RTIConnextDDS::c_api",
+        generator: "Unix Makefiles",
+        mi_mode: "lldb",
+        platform: getPlatformName(platform),
+        architecture: configurationVariables.architecture,
+    };
+
+    if (configurationVariables.language === "C") {
+        data.connext_libs = "RTIConnextDDS::c_api";
+    } else if (configurationVariables.language === "C++98") {
+        data.connext_libs = "RTIConnextDDS::cpp_api";
+    } else if (configurationVariables.language === "C++11") {
+        data.connext_libs = "RTIConnextDDS::cpp2_api";
+    }
+
+    if (cmakeGenerator !== undefined) {
+        data.generator = cmakeGenerator;
+    } else if (platform === "win32") {
+        data.generator = "NMake Makefiles";
+    } else {
+        data.generator = "Unix Makefiles";
+    }
+
+    if (platform === "darwin") {
+        data.mi_mode = "lldb";
+    } else if (platform === "linux") {
+        data.mi_mode = "gdb";
+    } else if (platform === "win32") {
+        data.mi_mode = "cppvsdbg";
+    }
+
+    return data;
+}
+
+/**
+ * Checks whether a file generated by rtiddsgen is not needed in a VS Code
+ * workspace (makefiles, READMEs and IDE project files).
+ *
+ * @param fileName - The path of the generated file.
+ */
+export function isUnnecessaryExampleFile(fileName: string): boolean {
+    const lowerFileName = fileName.toLowerCase();
+
+    return (
+        lowerFileName.startsWith("makefile") ||
+        lowerFileName.startsWith("readme") ||
+        lowerFileName.endsWith(".launch") ||
+        lowerFileName.endsWith("build.xml") ||
+        lowerFileName.endsWith(".classpath") ||
+        lowerFileName.endsWith(".project") ||
+        lowerFileName.endsWith(".vcxproj") ||
+        lowerFileName.endsWith(".vcxproj.filters") ||
+        lowerFileName.endsWith(".sln")
+    );
+}
@@ -0,0 +1,392 @@
+/*******************************************************************************
+ * (c) Copyright, Real-Time Innovations, 2024.
+ * All rights reserved.
+ * No duplications, whole or partial, manual or electronic, may be made
+ * without express written permission.  Any such copies, or
+ * revisions thereof, must display this notice unaltered.
+ * This code contains trade secrets of Real-Time Innovations, Inc.
+ */
+
+const START_WORKSPACE_INFO = `[Start Workspace Info]\n`;
+const END_WORKSPACE_INFO = `[End Workspace Info]\n`;
+
+const BEGIN_HUMAN_REST_MESSAGE = "[[BEGIN Human message]]\n";
+const END_HUMAN_REST_MESSAGE = "[[END Human message]]\n";
+const BEGIN_AI_REST_MESSAGE = "[[BEGIN AI message]]\n";
+const END_AI_REST_MESSAGE = "[[END AI message]]\n";
+const HUMAN_MESSAGE = "Human message:";
+const AI_MESSAGE = "AI message:";
+
+export enum PromptReferenceKind {
+    File,
+    Selection,
+    Unknown,
+}
+
+export enum PromptReferenceAttributes {
+    OpenFile,
+    UploadedFile,
+    SelectedText,
+}
+
+/**
+ * A file or a selection from the workspace, already read, to include in a
+ * prompt.
+ */
+export interface WorkspaceReference {
+    kind: PromptReferenceKind;
+    attributes: PromptReferenceAttributes[];
+
+    /**
+     * The file system path of the reference.
+     */
+    path: string | undefined;
+
+    content: string | undefined;
+}
+
+/**
+ * The installation and architecture described to the Intelligence Platform
+ * as the default ones.
+ */
+export interface DefaultInstallationInfo {
+    directory: string;
+    architecture: string;
+
+    /**
+     * The Connext version of the installation.
+     */
+    version?: string;
+
+    /**
+     * The host packages and the target packages of the architecture, as
+     * "name version", so that the answers know which add-ons are installed.
+     */
+    installedPackages?: string[];
+}
+
+export enum HistoryTurnKind {
+    Request,
+    Response,
+}
+
+/**
+ * A question asked by the user in a previous turn of the conversation.
+ */
+export interface RequestHistoryTurn {
+    kind: HistoryTurnKind.Request;
+    prompt: string;
+
+    /**
+     * The chat command used in the question, if any.
+     */
+    command?: string;
+}
+
+/**
+ * An answer given in a previous turn of the conversation.
+ */
+export interface ResponseHistoryTurn {
+    kind: HistoryTurnKind.Response;
+
+    /**
+     * The Markdown parts of the answer.
+     */
+    markdown: string[];
+}
+
+export type HistoryTurn = RequestHistoryTurn | ResponseHistoryTurn;
+
+/**
+ * The inputs used to build a prompt, other than the question itself.
+ */
+export interface PromptOptions {
+    /**
+     * The previous turns of the conversation, oldest first.
+     */
+    history: HistoryTurn[];
+
+    references: WorkspaceReference[];
+    defaultInstallation: DefaultInstallationInfo | undefined;
+
+    /**
+     * The response to the question, appended to the prompt when not null.
+     */
+    response: string | null;
+
+    /**
+     * Whether to use the REST API tags to delimit the messages.
+     */
+    restApi: boolean;
+
+    /**
+     * The maximum length of the history included in the prompt, in
+     * characters.
+     */
+    maxHistoryLength: number;
+
+    /**
+     * Text added by the extension to the answers (for example, warnings)
+     * that is removed from the history.
+     */
+    ignoredResponseText: string[];
+}
+
+/**
+ * Returns the prompt to generate a system XML model from a diagram.
+ *
+ * @param source - The kind of diagram ("image" or "draw.io"), or an empty
+ * string when it is not known.
+ */
+export function getSystemXmlModelPromptText(source: string): string {
+    return `**Generate a complete and valid RTI DDS system configuration in 
+    OMG XML from the ${source} diagram in the open files.** 
+    
+    The response must strictly include the validated XML code. The configuration
+    for the input diagram should incorporate the following elements:
+
+    - Data types in XML format
+    - QoS settings
+    - Domain
+    - Topics
+    - Data writers
+    - Data readers
+    - Any additional elements required for a fully operational RTI DDS system
+
+    When defining types try to be as complete as possible. Do not use the
+    same type for different kinds of data. Data types that represent
+    the value of an object should always include an ID field. You can use
+    a tool to get help defining the types.
+
+    All components (e.g, sensor, control unit, etc) should be encapsulated in 
+    its own Participant.
+
+    Always preserve the flow of information described by arrows (or lines) in
+    the diagram. If a line goes into a component, it will require a DataReader.
+    If a line goes out of a component, it will require a DataWriter.
+
+    Always provide a baseline builtin QoS profile for each DataWriter and 
+    DataReader. Use a tool to access the builtin QoS profiles.
+    `;
+}
+
+/**
+ * Appends the workspace information (references and default installation)
+ * to a prompt.
+ *
+ * @param prompt - The question of the user.
+ * @param references - The files and selections to include.
+ * @param defaultInstallation - The default installation, if any.
+ * @returns The prompt followed by the workspace information.
+ */
+export function generatePromptWithWorkspaceInfo(
+    prompt: string,
+    references: WorkspaceReference[],
+    defaultInstallation: DefaultInstallationInfo | undefined
+): string {
+    // Return the original prompt if no references or default installations are provided
+    if (references.length === 0 && defaultInstallation === undefined) {
+        return prompt + "\n";
+    }
+
+    let promptWithInfo = prompt + "\n";
+
+    // Create a structured template for the content references
+    promptWithInfo += START_WORKSPACE_INFO;
+    promptWithInfo += `Use the following workspace information to respond to the previous request more specifically.\n`;
+
+    if (references.length > 0) {
+        promptWithInfo += `Consider the content references provided in the JSON format below to respond to the previous request:\n\n`;
+
+        promptWithInfo += JSON.stringify(
+            references.map((ref) => ({
+                kind: PromptReferenceKind[ref.kind],
+                attributes: ref.attributes.map((attr) => PromptReferenceAttributes[attr]),
+                uri: ref.path,
+                content: ref.content,
+            })),
+            null,
+            2
+        );
+
+        promptWithInfo += "\n";
+    }
+
+    // Create a structured template for the default installation information
+    if (defaultInstallation !== undefined) {
+        promptWithInfo += `Consider the default installation info provided in the JSON format below to respond to the previous request:\n\n`;
+
+        promptWithInfo += JSON.stringify(
+            {
+                directory: defaultInstallation.directory,
+                architecture: defaultInstallation.architecture,
+                version: defaultInstallation.version,
+                installedPackages: defaultInstallation.installedPackages,
+            },
+            null,
+            2
+        );
+
+        promptWithInfo += "\n";
+    }
+
+    promptWithInfo += `If there are images in the request content, use them to respond as well.\n`;
+    promptWithInfo += END_WORKSPACE_INFO;
+
+    return promptWithInfo;
+}
+
+/**
+ * Formats a previous question for the history.
+ */
+function formatRequestTurn(turn: RequestHistoryTurn, restApi: boolean): string {
+    let promptValue = turn.prompt;
+
+    if (turn.command === "generateSystemXmlModel") {
+        // The prompt does not have a value and we have to generate a prompt
+        // for the history based on what it was used in the command. We
+        // ignore the references in this case because we may not have the
+        // references available anymore
+        promptValue = getSystemXmlModelPromptText("");
+    }
+
+    if (restApi) {
+        return BEGIN_HUMAN_REST_MESSAGE + `${promptValue}\n` + END_HUMAN_REST_MESSAGE;
+    }
+
+    return `${HUMAN_MESSAGE} ${promptValue}\n`;
+}
+
+/**
+ * Formats a previous answer for the history.
+ */
+function formatResponseTurn(
+    turn: ResponseHistoryTurn,
+    restApi: boolean,
+    ignoredResponseText: string[]
+): string {
+    let response = restApi ? BEGIN_AI_REST_MESSAGE : `${AI_MESSAGE} `;
+
+    for (const markdown of turn.markdown) {
+        response += `${markdown}\n`;
+    }
+
+    for (const text of ignoredResponseText) {
+        if (response.includes(text)) {
+            response = response.replace(text, "");
+        }
+    }
+
+    if (response.trim() === BEGIN_AI_REST_MESSAGE.trim()) {
+        response += "No response provided.\n";
+    }
+
+    if (restApi) {
+        response += END_AI_REST_MESSAGE;
+    }
+
+    return response;
+}
+
+/**
+ * Builds the prompt sent to the Intelligence Platform: the previous turns of
+ * the conversation that fit in the history limit, followed by the question
+ * with the workspace information.
+ *
+ * If prompt is null, only the history is returned. If the response in the
+ * options is not null, it is appended after the question.
+ *
+ * @param prompt - The question of the user.
+ * @param options - The conversation and workspace information.
+ * @returns The prompt with the history and the response.
+ */
+export function buildPrompt(prompt: string | null, options: PromptOptions): string {
+    const restApi = options.restApi;
+    let limit = options.maxHistoryLength;
+    let promptWithInfo = null;
+
+    if (prompt !== null) {
+        promptWithInfo = generatePromptWithWorkspaceInfo(
+            prompt,
+            options.references,
+            options.defaultInstallation
+        );
+        limit = Math.max(options.maxHistoryLength - promptWithInfo.length, 0);
+    }
+
+    const previousMessages = options.history;
+    const previousMessagesList: string[] = [];
+
+    if (limit > 0) {
+        for (
+            let i = previousMessages.length - 1, userAsk = false, totalLength = 0;
+            i >= 0;
+            i--
+        ) {
+            const turn = previousMessages[i];
+
+            if (turn.kind === HistoryTurnKind.Request) {
+                previousMessagesList.unshift(formatRequestTurn(turn, restApi));
+                totalLength += turn.prompt.length;
+                userAsk = true;
+            } else {
+                const response = formatResponseTurn(
+                    turn,
+                    restApi,
+                    options.ignoredResponseText
+                );
+                previousMessagesList.unshift(response);
+                totalLength += response.length;
+                userAsk = false;
+            }
+
+            if (totalLength > limit && userAsk) {
+                // Pop the last user ask
+                previousMessagesList.shift();
+
+                if (previousMessagesList.length > 0) {
+                    // Pop the last bot response
+                    previousMessagesList.shift();
+                }
+
+                break;
+            }
+        }
+    }
+
+    let promptWithContext = previousMessagesList.join("");
+
+    promptWithContext = promptWithContext.replace(
+        new RegExp(`${START_WORKSPACE_INFO}.*?${END_WORKSPACE_INFO}`),
+        ""
+    );
+
+    if (promptWithInfo === null) {
+        return promptWithContext;
+    }
+
+    promptWithContext += restApi ? BEGIN_HUMAN_REST_MESSAGE : `${HUMAN_MESSAGE} `;
+    promptWithContext += promptWithInfo;
+
+    if (restApi) {
+        promptWithContext += END_HUMAN_REST_MESSAGE;
+    }
+
+    promptWithContext += restApi ? BEGIN_HUMAN_REST_MESSAGE : `${HUMAN_MESSAGE} `;
+    promptWithContext += "If the request requires XML or Python code generation, always validate the code for correctness and functionality. Include the validated code as part of your response.";
+
+    if (restApi) {
+        promptWithContext += END_HUMAN_REST_MESSAGE;
+    }
+
+    if (options.response !== null) {
+        promptWithContext += restApi ? BEGIN_AI_REST_MESSAGE : `${AI_MESSAGE} `;
+        promptWithContext += `${options.response}\n`;
+
+        if (restApi) {
+            promptWithContext += END_AI_REST_MESSAGE;
+        }
+    }
+
+    return promptWithContext;
+}
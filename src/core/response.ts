@@ -0,0 +1,111 @@
+/*******************************************************************************
+ * (c) Copyright, Real-Time Innovations, 2024.
+ * All rights reserved.
+ * No duplications, whole or partial, manual or electronic, may be made
+ * without express written permission.  Any such copies, or
+ * revisions thereof, must display this notice unaltered.
+ * This code contains trade secrets of Real-Time Innovations, Inc.
+ */
+
+/**
+ * A follow-up question suggested by the language model.
+ */
+export interface FollowUpQuestion {
+    question: string;
+
+    /**
+     * A short summary of the question, used as its label.
+     */
+    summary: string;
+}
+
+/**
+ * Extracts the content of a specified code block from a Markdown string.
+ *
+ * @param markdown - The full Markdown string to search within.
+ * @param markdownCode - The language identifier of the code block to extract (e.g., "typescript", "javascript").
+ * @returns The content of the specified code block, or an empty string if the code block is not found.
+ */
+export function extractCodeBlocksFromMarkdown(
+    markdown: string,
+    markdownCode: string
+): string {
+    // Construct the opening code block delimiter
+    const codeBlockStart = "```" + markdownCode;
+    const codeBlockEnd = "```";
+
+    // Find the starting index of the desired code block
+    const startIndex = markdown.indexOf(codeBlockStart);
+    if (startIndex === -1) {
+        // Return an empty string if the specified code block is not found
+        return "";
+    }
+
+    // Extract content after the opening code block
+    const afterStart = markdown.substring(startIndex + codeBlockStart.length);
+
+    // Find the closing code block delimiter
+    const endIndex = afterStart.indexOf(codeBlockEnd);
+    if (endIndex === -1) {
+        // Return everything after the opening if no closing delimiter is found
+        return afterStart.trim();
+    }
+
+    // Extract and return the code block content
+    return afterStart.substring(0, endIndex).trim();
+}
+
+/**
+ * Removes the Markdown code fence that language models often put around a
+ * JSON answer.
+ *
+ * @param response - The answer of the language model.
+ * @returns The answer without the first ```` ```json ```` and ```` ``` ```` markers.
+ */
+export function stripJsonCodeFence(response: string): string {
+    return response.replace("```json", "").replace("```", "");
+}
+
+/**
+ * Parses the follow-up questions generated by the language model, in the
+ * format `{"questions": [{"question": "...", "summary": "..."}]}`.
+ *
+ * @param response - The answer of the language model.
+ * @returns The follow-up questions, or an empty array if the answer is not
+ * valid.
+ */
+export function parseFollowUpQuestions(response: string): FollowUpQuestion[] {
+    let parsedData;
+
+    try {
+        parsedData = JSON.parse(stripJsonCodeFence(response));
+    } catch (error) {
+        /* Any error leads to an empty followup */
+        return [];
+    }
+
+    if (!Array.isArray(parsedData?.questions)) {
+        return [];
+    }
+
+    return parsedData.questions.map((question: any) => ({
+        question: question.question,
+        summary: question.summary,
+    }));
+}
+
+/**
+ * Parses the application that a prompt refers to, as determined by the
+ * language model in the format `{"application": "<name>" | null}`.
+ *
+ * @param response - The answer of the language model.
+ * @returns The name of the application, or null if there is none or the
+ * answer is not valid.
+ */
+export function parseRelatedApplication(response: string): string | null {
+    try {
+        return JSON.parse(stripJsonCodeFence(response)).application ?? null;
+    } catch (error) {
+        return null;
+    }
+}
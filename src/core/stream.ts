@@ -0,0 +1,52 @@
+/*******************************************************************************
+ * (c) Copyright, Real-Time Innovations, 2024.
+ * All rights reserved.
+ * No duplications, whole or partial, manual or electronic, may be made
+ * without express written permission.  Any such copies, or
+ * revisions thereof, must display this notice unaltered.
+ * This code contains trade secrets of Real-Time Innovations, Inc.
+ */
+
+/**
+ * Decodes a UTF-8 stream and splits it into lines.
+ *
+ * The chunks of the stream may end in the middle of a line or of a
+ * multibyte character, so both are kept until the rest of them arrives or
+ * the stream ends.
+ */
+export class LineDecoder {
+    private decoder = new TextDecoder("utf-8");
+    private partial = "";
+
+    /**
+     * Adds a chunk of the stream.
+     * @param chunk - The chunk.
+     * @returns The lines completed by the chunk, without their new line.
+     */
+    push(chunk: Uint8Array): string[] {
+        return this.split(this.decoder.decode(chunk, { stream: true }));
+    }
+
+    /**
+     * Ends the stream.
+     * @returns The last line, if the stream does not end with a new line.
+     */
+    end(): string[] {
+        const lines = this.split(this.decoder.decode());
+
+        if (this.partial !== "") {
+            lines.push(this.partial);
+            this.partial = "";
+        }
+
+        return lines;
+    }
+
+    private split(text: string): string[] {
+        const lines = (this.partial + text).split("\n");
+
+        this.partial = lines.pop() ?? "";
+
+        return lines;
+    }
+}
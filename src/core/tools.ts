@@ -0,0 +1,228 @@
+/*******************************************************************************
+ * (c) Copyright, Real-Time Innovations, 2024.
+ * All rights reserved.
+ * No duplications, whole or partial, manual or electronic, may be made
+ * without express written permission.  Any such copies, or
+ * revisions thereof, must display this notice unaltered.
+ * This code contains trade secrets of Real-Time Innovations, Inc.
+ */
+
+/**
+ * An RTI tool that can be launched from an installation.
+ *
+ * The registry below drives the commands, the chat slash commands, the
+ * "Start" buttons shown after an answer about the tool and the tools of the
+ * installations view. The commands and slash commands must also be declared
+ * in package.json.
+ */
+export interface ConnextTool {
+    /**
+     * The executable name in the `bin` directory of the installation.
+     */
+    executable: string;
+
+    /**
+     * The display name, also used to find out whether an answer is about
+     * the tool.
+     */
+    name: string;
+
+    /**
+     * Whether the tool has a graphical interface. Command-line tools ask for
+     * their arguments and show their output in the "Connext Tools" channel.
+     */
+    kind: "gui" | "cli";
+
+    /**
+     * The command that launches the tool, without the
+     * "connext-vc-copilot." prefix, or undefined if the tool is only listed
+     * in the installations view.
+     */
+    command?: string;
+
+    /**
+     * The chat slash command that launches the tool, if any.
+     */
+    slashCommand?: string;
+
+    /**
+     * An example of the arguments of a command-line tool.
+     */
+    argumentsHint?: string;
+}
+
+/**
+ * The RTI tools, in the order they are listed.
+ */
+export const CONNEXT_TOOLS: ConnextTool[] = [
+    {
+        executable: "rtiadminconsole",
+        name: "RTI Admin Console",
+        kind: "gui",
+        command: "run-admin-console",
+        slashCommand: "startAdminConsole",
+    },
+    {
+        executable: "rtisystemdesigner",
+        name: "RTI System Designer",
+        kind: "gui",
+        command: "run-system-designer",
+        slashCommand: "startSystemDesigner",
+    },
+    {
+        executable: "rtimonitor",
+        name: "RTI Monitor",
+        kind: "gui",
+        command: "run-monitor-ui",
+        slashCommand: "startMonitorUI",
+    },
+    {
+        executable: "rtishapesdemo",
+        name: "RTI Shapes Demo",
+        kind: "gui",
+        command: "run-shapes-demo",
+        slashCommand: "startShapesDemo",
+    },
+    {
+        executable: "rtilauncher",
+        name: "RTI Launcher",
+        kind: "gui",
+    },
+    {
+        executable: "rtiddsgen",
+        name: "RTI Code Generator",
+        kind: "cli",
+    },
+    {
+        executable: "rtiddsspy",
+        name: "RTI DDS Spy",
+        kind: "cli",
+        command: "run-dds-spy",
+        slashCommand: "startDdsSpy",
+        argumentsHint: "-domainId 0 -printSample",
+    },
+    {
+        executable: "rtiddsping",
+        name: "RTI DDS Ping",
+        kind: "cli",
+        command: "run-dds-ping",
+        slashCommand: "startDdsPing",
+        argumentsHint: "-domainId 0 -publisher",
+    },
+    {
+        executable: "rtiroutingservice",
+        name: "RTI Routing Service",
+        kind: "cli",
+        command: "run-routing-service",
+        slashCommand: "startRoutingService",
+        argumentsHint: "-cfgFile routing.xml -cfgName default",
+    },
+    {
+        executable: "rtirecordingservice",
+        name: "RTI Recording Service",
+        kind: "cli",
+        command: "run-recording-service",
+        slashCommand: "startRecordingService",
+        argumentsHint: "-cfgFile recording.xml -cfgName default",
+    },
+    {
+        executable: "rtireplayservice",
+        name: "RTI Replay Service",
+        kind: "cli",
+        command: "run-replay-service",
+        slashCommand: "startReplayService",
+        argumentsHint: "-cfgFile replay.xml -cfgName default",
+    },
+    {
+        executable: "rticlouddiscoveryservice",
+        name: "RTI Cloud Discovery Service",
+        kind: "cli",
+        command: "run-cloud-discovery-service",
+        slashCommand: "startCloudDiscoveryService",
+        argumentsHint: "-transport 7400",
+    },
+    {
+        executable: "rtipersistenceservice",
+        name: "RTI Persistence Service",
+        kind: "cli",
+        command: "run-persistence-service",
+        slashCommand: "startPersistenceService",
+        argumentsHint: "-cfgFile persistence.xml -cfgName default",
+    },
+    {
+        executable: "rtiwebintegrationservice",
+        name: "RTI Web Integration Service",
+        kind: "cli",
+        command: "run-web-integration-service",
+        slashCommand: "startWebIntegrationService",
+        argumentsHint: "-cfgFile web.xml -cfgName default",
+    },
+];
+
+/**
+ * Finds a tool by its executable name.
+ *
+ * @param executable - The executable name, without directory or extension.
+ * @returns The tool, or undefined if it is not a known tool.
+ */
+export function findToolByExecutable(
+    executable: string
+): ConnextTool | undefined {
+    return CONNEXT_TOOLS.find((tool) => tool.executable === executable);
+}
+
+/**
+ * Finds a tool by its chat slash command.
+ *
+ * @param slashCommand - The slash command, without the "/".
+ * @returns The tool, or undefined if the command does not launch a tool.
+ */
+export function findToolBySlashCommand(
+    slashCommand: string | undefined
+): ConnextTool | undefined {
+    return CONNEXT_TOOLS.find(
+        (tool) =>
+            tool.slashCommand !== undefined &&
+            tool.slashCommand === slashCommand
+    );
+}
+
+/**
+ * Finds a tool by its display name.
+ *
+ * @param name - The display name, such as "RTI Admin Console".
+ * @returns The tool, or undefined if there is no tool with that name.
+ */
+export function findToolByName(name: string): ConnextTool | undefined {
+    return CONNEXT_TOOLS.find((tool) => tool.name === name);
+}
+
+/**
+ * Returns the title of the button that starts a tool, such as
+ * "Start Admin Console".
+ *
+ * @param tool - The tool.
+ * @returns The title.
+ */
+export function getStartButtonTitle(tool: ConnextTool): string {
+    return `Start ${tool.name.replace(/^RTI /, "")}`;
+}
+
+/**
+ * Splits the arguments typed by the user. Arguments with spaces can be
+ * enclosed in single or double quotes.
+ *
+ * @param text - The arguments, such as `-cfgFile "my config.xml"`.
+ * @returns The arguments.
+ */
+export function parseToolArguments(text: string): string[] {
+    let args: string[] = [];
+    const pattern = /"([^"]*)"|'([^']*)'|(\S+)/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(text)) !== null) {
+        args.push(match[1] ?? match[2] ?? match[3]);
+    }
+
+    return args;
+}
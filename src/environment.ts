@@ -0,0 +1,162 @@
+/*******************************************************************************
+ * (c) Copyright, Real-Time Innovations, 2024.
+ * All rights reserved.
+ * No duplications, whole or partial, manual or electronic, may be made
+ * without express written permission.  Any such copies, or
+ * revisions thereof, must display this notice unaltered.
+ * This code contains trade secrets of Real-Time Innovations, Inc.
+ */
+
+import * as vscode from "vscode";
+
+import {
+    ConnextEnvironment,
+    DEFAULT_ENVIRONMENT_NAME,
+    findEnvironment,
+    getEnvironments,
+} from "./core/environment";
+import { showErrorMessage, showInformationMessage } from "./utils";
+
+const ENVIRONMENT_EMITTER = new vscode.EventEmitter<ConnextEnvironment>();
+
+/**
+ * Fired when the active environment, or its server or login, changes.
+ */
+export const onDidChangeEnvironment = ENVIRONMENT_EMITTER.event;
+
+/**
+ * Reads the environments from the `connext.intelligencePlatformUrl` and
+ * `connext.environments` settings.
+ *
+ * @param userOnly - Whether to read only the user settings, ignoring the
+ * workspace settings.
+ * @returns The environments and the errors found in the profiles.
+ */
+function readEnvironments(userOnly = false): ReturnType<typeof getEnvironments> {
+    const config = vscode.workspace.getConfiguration("connext");
+    const read = <T>(key: string, defaultValue: T): T =>
+        userOnly
+            ? config.inspect<T>(key)?.globalValue ?? defaultValue
+            : config.get<T>(key, defaultValue);
+
+    return getEnvironments(
+        read<string>("intelligencePlatformUrl", "wss://sandbox-chatbot.rti.com"),
+        read<any[]>("environments", [])
+    );
+}
+
+/**
+ * Returns the environment selected in the `connext.environment` setting.
+ * The built-in environment is returned if no profile has that name.
+ *
+ * @returns The active environment.
+ */
+export function getActiveEnvironment(): ConnextEnvironment {
+    const config = vscode.workspace.getConfiguration("connext");
+
+    return findEnvironment(
+        readEnvironments().environments,
+        config.get<string>("environment", DEFAULT_ENVIRONMENT_NAME)
+    );
+}
+
+/**
+ * Checks whether an environment is the built-in one or is defined in the
+ * user settings, so that the credentials of the user can be sent to its
+ * login and server.
+ *
+ * @param environment - The environment.
+ * @returns True if the environment comes from the user settings.
+ */
+export function isUserEnvironment(environment: ConnextEnvironment): boolean {
+    const userEnvironment = findEnvironment(
+        readEnvironments(true).environments,
+        environment.name
+    );
+
+    return JSON.stringify(userEnvironment) === JSON.stringify(environment);
+}
+
+/**
+ * Shows a quick pick with the environments and makes the selected one
+ * active. The logins of the other environments are kept.
+ */
+export async function selectEnvironment() {
+    const { environments, errors } = readEnvironments();
+    const active = getActiveEnvironment();
+
+    errors.forEach((error) => showErrorMessage(error));
+
+    const selection = await vscode.window.showQuickPick(
+        environments.map((environment) => ({
+            label: environment.name,
+            description: environment.intelligencePlatformUrl,
+            detail: environment.auth.domain,
+            picked: environment.name === active.name,
+        })),
+        { placeHolder: `Current environment: ${active.name}` }
+    );
+
+    if (selection === undefined || selection.label === active.name) {
+        return;
+    }
+
+    await vscode.workspace
+        .getConfiguration("connext")
+        .update(
+            "environment",
+            selection.label,
+            vscode.ConfigurationTarget.Global
+        );
+
+    // The setting may still be overridden, for example in the remote
+    // settings
+    const current = getActiveEnvironment();
+
+    if (current.name !== selection.label) {
+        showErrorMessage(
+            `The ${selection.label} environment was saved in the user settings, but the ${current.name} environment is still active because the 'connext.environment' setting is overridden.`
+        );
+        return;
+    }
+
+    showInformationMessage(`Switched to the ${selection.label} environment.`);
+}
+
+/**
+ * Fires `onDidChangeEnvironment` when the environment settings change and
+ * reports the invalid profiles.
+ *
+ * @param context - The extension context.
+ */
+export function watchEnvironmentConfiguration(
+    context: vscode.ExtensionContext
+) {
+    let lastEnvironment = JSON.stringify(getActiveEnvironment());
+
+    context.subscriptions.push(
+        ENVIRONMENT_EMITTER,
+        vscode.workspace.onDidChangeConfiguration((event) => {
+            if (event.affectsConfiguration("connext.environments")) {
+                readEnvironments().errors.forEach((error) =>
+                    showErrorMessage(error)
+                );
+            }
+
+            if (
+                !event.affectsConfiguration("connext.environment") &&
+                !event.affectsConfiguration("connext.environments") &&
+                !event.affectsConfiguration("connext.intelligencePlatformUrl")
+            ) {
+                return;
+            }
+
+            const environment = getActiveEnvironment();
+
+            if (JSON.stringify(environment) !== lastEnvironment) {
+                lastEnvironment = JSON.stringify(environment);
+                ENVIRONMENT_EMITTER.fire(environment);
+            }
+        })
+    );
+}
@@ -8,8 +8,6 @@
  */
 
 import * as vscode from "vscode";
-import io from "socket.io-client";
-import { Socket } from "socket.io-client";
 import { v4 as uuidv4 } from "uuid";
 import {
     Installation,
@@ -24,28 +22,77 @@ import {
     showErrorMessage,
     showInformationMessage,
     askQuestion,
-    supportedImageExtensions
+    supportedImageExtensions,
+    getIntelligencePlatformHttpUrl,
 } from "./utils";
 
 import { getPrompt, getImages, getGenerateSystemXmlModelPrompt } from "./prompt";
-import { Auth } from "./auth";
+import {
+    Auth,
+    CONNEXT_AUTH_PROVIDER_ID,
+    ConnextAuthenticationProvider,
+} from "./auth";
+import { showAccount } from "./account";
+import { InstallationWatcher } from "./installationWatcher";
+import { registerInstallationView } from "./installationView";
+import { registerConnextTerminal } from "./terminal";
+import { registerToolProcessCommands } from "./toolProcesses";
+import {
+    CONNEXT_TOOLS,
+    ConnextTool,
+    findToolByName,
+    findToolBySlashCommand,
+    getStartButtonTitle,
+    parseToolArguments,
+} from "./core/tools";
+import {
+    getActiveEnvironment,
+    selectEnvironment,
+    watchEnvironmentConfiguration,
+} from "./environment";
 
 import { createExample, initializeWorkspace } from "./project";
+import { RequestOutcome, RequestSender } from "./multiplexer";
+import { HttpStreamingSender } from "./streaming";
+import { watchNetworkConfiguration } from "./network";
+import { SessionManager } from "./session";
+import { parseFollowUpQuestions, parseRelatedApplication } from "./core/response";
+import {
+    getRecordFile,
+    getReplayFixture,
+    RecordingSender,
+    ReplaySender,
+} from "./recorder";
+import {
+    ConnectionManager,
+    ConnectionState,
+    createConnectionStatusBarItem,
+} from "./connection";
+
+/**
+ * A request that did not finish and can be sent again with the 'Retry'
+ * button.
+ */
+interface RetryRequest {
+    prompt: string;
+    payload: { id: string; [key: string]: any };
+}
 
 class GlobalState {
     readonly MAX_HISTORY_LENGTH: number;
     readonly NUM_FOLLOWUPS: number;
     readonly VALIDATE_CODE_HELP_STRING: string;
     readonly VALIDATE_CODE_WARNING: string;
+    readonly TRUNCATED_ANSWER_WARNING: string;
 
     extensionUri: vscode.Uri;
     lastPrompt: string | null;
     lastResponse: string | null;
+    retryRequest: RetryRequest | undefined;
     installations: Installation[] | undefined;
-    selectedIntelligencePlatformUrl: string | undefined;
 
-    socket: Socket | undefined;
-    connectionReady: boolean;
+    connection: ConnectionManager;
+    sessions: SessionManager;
 
     constructor() {
         // Set to displayName
@@ -53,19 +100,16 @@ class GlobalState {
         this.NUM_FOLLOWUPS = 3;
         this.VALIDATE_CODE_HELP_STRING = `\n\n*Click 'Validate Code' to check the XML or Python for errors. The chatbot will try to fix issues with the XML schema, or Python syntax or types. Validation may take up to a minute.*`;
         this.VALIDATE_CODE_WARNING = `\n\n***NOTE:** Although the code has been validated, it may still contain errors. Please review and test the code before using it.*`;
+        this.TRUNCATED_ANSWER_WARNING = `\n\n***NOTE:** This answer is incomplete because the request did not finish. Click 'Retry' to send the request again.*`;
 
         this.extensionUri = vscode.Uri.parse(""); // Placeholder value, update when valid value is available
 
-        this.socket = undefined;
-        this.connectionReady = false;
+        this.connection = new ConnectionManager();
+        this.sessions = new SessionManager();
 
         this.lastPrompt = null;
         this.lastResponse = null;
-
-        // Use ws://localhost:8502 to switch to local server
-        // Use wss://sandbox-chatbot.rti.com to switch to sandbox server
-        // Use wss://chatbot.rti.com to switch to production server
-        this.selectedIntelligencePlatformUrl = undefined;
+        this.retryRequest = undefined;
     }
 }
 
@@ -80,6 +124,7 @@ interface IChatResult extends vscode.ChatResult {
         command: string | undefined;
         error: boolean;
         cancel: boolean;
+        sessionId?: string;
     };
 }
 
@@ -95,29 +140,6 @@ function generateRequestId(): string {
     return uuidv4();
 }
 
-/**
- * Waits for a specified condition to become true within a given timeout period.
- *
- * @param condition - A function that returns a boolean indicating whether the condition is met.
- * @param timeout - The maximum time to wait for the condition to be met, in milliseconds. Defaults to 10000 ms.
- * @param checkInterval - The interval at which to check the condition, in milliseconds. Defaults to 10 ms.
- * @returns A promise that resolves when the condition is met or the timeout is reached.
- */
-async function waitForCondition(
-    condition: () => boolean,
-    timeout: number = 10000,
-    checkInterval: number = 10
-): Promise<void> {
-    const startTime = Date.now();
-
-    while (!condition()) {
-        if (Date.now() - startTime > timeout) {
-            break;
-        }
-        await new Promise((resolve) => setTimeout(resolve, checkInterval));
-    }
-}
-
 /**
  * Generates potential follow-up questions for an RTI Connext developer based on the context of an ongoing conversation.
  *
@@ -179,28 +201,10 @@ async function generateFollowUps(
 
     let response = await askQuestion(QUESTION, token);
 
-    response = response.replace("```json", "");
-    response = response.replace("```", "");
-
-    let parsedData;
-
-    try {
-        parsedData = JSON.parse(response);
-    } catch (error) {
-        /* Any error leads to an empty followup */
-        return [];
-    }
-
-    let followups = [];
-
-    for (let i = 0; i < parsedData.questions.length; i++) {
-        followups.push({
-            prompt: parsedData.questions[i].question,
-            label: parsedData.questions[i].summary,
-        });
-    }
-
-    return followups;
+    return parseFollowUpQuestions(response).map((question) => ({
+        prompt: question.question,
+        label: question.summary,
+    }));
 }
 
 /**
@@ -260,25 +264,9 @@ async function generateBotFollowUp(
 
     let response = await askQuestion(QUESTION, token);
 
-    response = response.replace("```json", "");
-    response = response.replace("```", "");
-
-    let parsedData;
+    const questions = parseFollowUpQuestions(response);
 
-    try {
-        parsedData = JSON.parse(response);
-    } catch (error) {
-        /* Any error leads to an empty followup */
-        return null;
-    }
-
-    let followup = null;
-
-    if (parsedData.questions.length > 0) {
-        followup = parsedData.questions[0].question;
-    }
-
-    return followup;
+    return questions.length > 0 ? questions[0].question : null;
 }
 
 /**
@@ -381,21 +369,51 @@ async function getRelatedApplication(
 
     let applicationResponse = await askQuestion(QUESTION, token);
 
-    applicationResponse = applicationResponse.replace("```json", "");
-    applicationResponse = applicationResponse.replace("```", "");
+    return parseRelatedApplication(applicationResponse);
+}
 
-    let parsedData;
+/**
+ * Returns the maximum time to wait for the connection to the Intelligence
+ * Platform, from the `connext.connectionTimeout` setting.
+ *
+ * @returns The timeout, in milliseconds.
+ */
+function getConnectionTimeout(): number {
+    return (
+        vscode.workspace
+            .getConfiguration("connext")
+            .get<number>("connectionTimeout", 10) * 1000
+    );
+}
 
-    try {
-        parsedData = JSON.parse(applicationResponse);
-        return parsedData.application;
-    } catch (error) {
-        return null;
-    }
+function runApplicationCommand(applicationName: string, args: string[] = []) {
+    runApplication(globalThis.globalState.installations, applicationName, args);
 }
 
-function runApplicationCommand(applicationName: string) {
-    runApplication(globalThis.globalState.installations, applicationName);
+/**
+ * Launches a tool of the registry with the default installation. The
+ * arguments of a command-line tool are asked to the user when they are not
+ * given.
+ *
+ * @param tool - The tool to launch.
+ * @param args - The arguments of the tool.
+ */
+async function runToolCommand(tool: ConnextTool, args?: string[]) {
+    if (args === undefined && tool.kind === "cli") {
+        const text = await vscode.window.showInputBox({
+            title: `Start ${tool.name}`,
+            prompt: "Arguments of the tool, empty for none",
+            placeHolder: tool.argumentsHint,
+        });
+
+        if (text === undefined) {
+            return;
+        }
+
+        args = parseToolArguments(text);
+    }
+
+    runApplicationCommand(tool.executable, args ?? []);
 }
 
 /**
@@ -434,6 +452,23 @@ function connextInfo(response: vscode.ChatResponseStream) {
             `- *Default:* \`${installation.default ? "Yes" : "No"}\`\n`
         );
 
+        if (installation.packages.length > 0) {
+            response.markdown(`#### Installed packages:\n`);
+
+            for (let installedPackage of installation.packages) {
+                const target =
+                    installedPackage.architecture !== undefined
+                        ? ` (${installedPackage.architecture})`
+                        : "";
+
+                response.markdown(
+                    `- ${installedPackage.name} \`${installedPackage.version}\`${target}\n`
+                );
+            }
+
+            response.markdown(`\n`);
+        }
+
         if (
             installation.architectures == undefined ||
             installation.architectures.length == 0
@@ -476,8 +511,15 @@ function connextInfo(response: vscode.ChatResponseStream) {
  * @param context - The extension context provided by VS Code.
  *
  * This function registers several commands for the extension:
- * - `connext-vc-copilot.login`: Prompts the user for a username and password, stores them in the global state, and displays a welcome message.
- * - `connext-vc-copilot.logout`: Clears the stored username and password from the global state and displays a confirmation message.
+ * - `connext-vc-copilot.login`: Logs in to Connext through the RTI Connext authentication provider and displays a welcome message.
+ * - `connext-vc-copilot.logout`: Removes the Connext session and displays a confirmation message.
+ * - `connext-vc-copilot.refresh-installations`: Searches the Connext installations again.
+ * - `connext-vc-copilot.open-terminal`: Opens a terminal with the environment of the default installation.
+ * - `connext-vc-copilot.stop-tool`, `connext-vc-copilot.restart-tool`: Stops or restarts a running tool.
+ * - `connext-vc-copilot.show-tools-log`: Shows the output of the launched tools.
+ * - `connext-vc-copilot.show-account`: Shows the signed-in account, its scopes, token expiry and usage.
+ * - `connext-vc-copilot.set-api-token`: Stores a personal access token used instead of the interactive login.
+ * - `connext-vc-copilot.select-environment`: Switches to another Connext AI server and login.
  * - `connext-vc-copilot.explain`: Opens the chat with a prompt to explain the code.
  * - `connext-vc-copilot.fix`: Opens the chat with a prompt to fix the code.
  *
@@ -497,17 +539,31 @@ export async function activate(context: vscode.ExtensionContext) {
         }
     });
 
+    // Apply the proxy and CA certificate settings to all outbound traffic
+    watchNetworkConfiguration(context);
+
+    // Notify the login and the connection when the environment changes
+    watchEnvironmentConfiguration(context);
+
     // Initialize the authentication provider
     Auth.setup(context).catch((error) => {
         showErrorMessage(`Error setting up the authentication provider: ${error}`);
     });
 
+    // Show the Connext account in the Accounts menu
+    const authenticationProvider = new ConnextAuthenticationProvider();
+    context.subscriptions.push(authenticationProvider);
+
     // Register the login command
     let cidpLogin = vscode.commands.registerCommand(
         "connext-vc-copilot.login",
         async () => {
             try {
-                await Auth.login();
+                await vscode.authentication.getSession(
+                    CONNEXT_AUTH_PROVIDER_ID,
+                    getActiveEnvironment().scopes,
+                    { createIfNone: true }
+                );
                 showInformationMessage(`Successfully logged in.`);
             } catch (error) {
                 showErrorMessage(`Error logging in: ${error}`);
@@ -522,6 +578,7 @@ export async function activate(context: vscode.ExtensionContext) {
         "connext-vc-copilot.logout",
         async () => {
             try {
+                // The authentication provider reports the removed session
                 await Auth.logout();
                 showInformationMessage(`Successfully logged out.`);
             } catch (error) {
@@ -532,6 +589,49 @@ export async function activate(context: vscode.ExtensionContext) {
 
     context.subscriptions.push(cidpLogout);
 
+    // Register the show account command
+    let cidpShowAccount = vscode.commands.registerCommand(
+        "connext-vc-copilot.show-account",
+        showAccount
+    );
+
+    context.subscriptions.push(cidpShowAccount);
+
+    // Register the set API token command
+    let cidpSetApiToken = vscode.commands.registerCommand(
+        "connext-vc-copilot.set-api-token",
+        async () => {
+            const token = await vscode.window.showInputBox({
+                prompt: "Enter a Connext personal access token, or leave empty to remove it",
+                password: true,
+                ignoreFocusOut: true,
+            });
+
+            if (token === undefined) {
+                return;
+            }
+
+            try {
+                await Auth.setApiToken(token);
+                showInformationMessage(
+                    token ? `API token stored.` : `API token removed.`
+                );
+            } catch (error) {
+                showErrorMessage(`Error storing the API token: ${error}`);
+            }
+        }
+    );
+
+    context.subscriptions.push(cidpSetApiToken);
+
+    // Register the select environment command
+    let cidpSelectEnvironment = vscode.commands.registerCommand(
+        "connext-vc-copilot.select-environment",
+        selectEnvironment
+    );
+
+    context.subscriptions.push(cidpSelectEnvironment);
+
     // Explain with Connext
     let cidpExplain = vscode.commands.registerCommand(
         "connext-vc-copilot.explain",
@@ -587,74 +687,75 @@ export async function activate(context: vscode.ExtensionContext) {
 
     context.subscriptions.push(cidpWorkspace);
 
-    // Run Admin Console
-    let cidpRunAdmin = vscode.commands.registerCommand(
-        "connext-vc-copilot.run-admin-console",
-        () => {
-            const command = "rtiadminconsole";
-
-            runApplicationCommand(command);
+    // Run the RTI tools
+    for (const tool of CONNEXT_TOOLS) {
+        if (tool.command === undefined) {
+            continue;
         }
-    );
 
-    context.subscriptions.push(cidpRunAdmin);
+        context.subscriptions.push(
+            vscode.commands.registerCommand(
+                `connext-vc-copilot.${tool.command}`,
+                () => runToolCommand(tool)
+            )
+        );
+    }
 
-    // Run System Designer
-    let cidpRunSystem = vscode.commands.registerCommand(
-        "connext-vc-copilot.run-system-designer",
+    // Draw system
+    let cidpDrawSystem = vscode.commands.registerCommand(
+        "connext-vc-copilot.draw-system",
         () => {
-            const command = "rtisystemdesigner";
-
-            runApplicationCommand(command);
+            vscode.commands.executeCommand('hediet.vscode-drawio.newDiagram');
         }
     );
 
-    context.subscriptions.push(cidpRunSystem);
-
-    // Run Monitor
-    let cidpRunMonitor = vscode.commands.registerCommand(
-        "connext-vc-copilot.run-monitor-ui",
-        () => {
-            const command = "rtimonitor";
+    context.subscriptions.push(cidpDrawSystem);
 
-            runApplicationCommand(command);
-        }
+    // Keep the installations up to date when Connext is installed or removed
+    const installationWatcher = new InstallationWatcher(
+        globalThis.globalState.installations ?? []
     );
 
-    context.subscriptions.push(cidpRunMonitor);
+    context.subscriptions.push(installationWatcher);
+    context.subscriptions.push(
+        installationWatcher.onDidChangeInstallations((installations) => {
+            globalThis.globalState.installations = installations;
+        })
+    );
 
-    // Run Shape Demo
-    let cidpShapes = vscode.commands.registerCommand(
-        "connext-vc-copilot.run-shapes-demo",
+    // Refresh installations
+    let cidpRefreshInstallations = vscode.commands.registerCommand(
+        "connext-vc-copilot.refresh-installations",
         () => {
-            const command = "rtishapesdemo";
+            const installations = installationWatcher.refresh(true);
 
-            runApplicationCommand(command);
+            showInformationMessage(
+                `Found ${installations.length} Connext installation(s).`
+            );
         }
     );
 
-    context.subscriptions.push(cidpShapes);
+    context.subscriptions.push(cidpRefreshInstallations);
 
-    // Draw system
-    let cidpDrawSystem = vscode.commands.registerCommand(
-        "connext-vc-copilot.draw-system",
-        () => {
-            vscode.commands.executeCommand('hediet.vscode-drawio.newDiagram');
-        }
-    );
+    // Show the installations in the activity bar
+    registerInstallationView(context, installationWatcher);
 
-    context.subscriptions.push(cidpDrawSystem);
+    // Set up the Connext environment in the integrated terminals
+    registerConnextTerminal(context, installationWatcher);
+
+    // Stop, restart and show the output of the launched tools
+    registerToolProcessCommands(context);
 
     // Select installation
     let selectInstallation = vscode.commands.registerCommand(
         "connext-vc-copilot.select-installation",
-        (installation: Installation, architecture: Architecture) => {
+        async (installation: Installation, architecture: Architecture) => {
             if (globalThis.globalState.installations == undefined) {
                 showErrorMessage(`No installations found.`);
                 return;
             }
 
-            setDefaultInstallation(
+            await setDefaultInstallation(
                 globalThis.globalState.installations,
                 installation,
                 architecture
@@ -666,17 +767,91 @@ export async function activate(context: vscode.ExtensionContext) {
         }
     );
 
-    // If we detect that the accessToken has changed, we need to disconnect
-    // the socket, otherwise the server will reject the connection because the
-    // token is invalid (expired).
-    context.secrets.onDidChange(event => {
-        if (event.key === "accessToken"
-            && globalThis.globalState.socket != undefined) {
-            globalThis.globalState.socket.disconnect();
-            globalThis.globalState.socket = undefined;
-            globalThis.globalState.connectionReady = false
+    // Show the state of the connection to the Intelligence Platform
+    context.subscriptions.push(globalThis.globalState.connection);
+    context.subscriptions.push(
+        createConnectionStatusBarItem(globalThis.globalState.connection)
+    );
+
+    // Reconnect to the Intelligence Platform
+    let cidpReconnect = vscode.commands.registerCommand(
+        "connext-vc-copilot.reconnect",
+        async () => {
+            let intelligencePlatformUrl =
+                getActiveEnvironment().intelligencePlatformUrl;
+
+            globalThis.globalState.connection.disconnect();
+
+            let multiplexer = await globalThis.globalState.connection.connect(
+                intelligencePlatformUrl,
+                getConnectionTimeout()
+            );
+
+            if (multiplexer === undefined) {
+                showErrorMessage(`Connection to the server failed.`);
+            }
         }
-    });
+    );
+
+    context.subscriptions.push(cidpReconnect);
+
+    // Delete the sessions of the chat threads in the server
+    let cidpDeleteSessions = vscode.commands.registerCommand(
+        "connext-vc-copilot.delete-sessions",
+        async () => {
+            const accessToken = await Auth.getAccessToken();
+
+            if (!accessToken) {
+                showErrorMessage(`Log in to Connext to delete the chat sessions.`);
+                return;
+            }
+
+            await globalThis.globalState.sessions.deleteAll(accessToken);
+            showInformationMessage(`The chat sessions were deleted.`);
+        }
+    );
+
+    context.subscriptions.push(cidpDeleteSessions);
+
+    // Retry a request that timed out or lost its connection
+    let cidpRetry = vscode.commands.registerCommand(
+        "connext-vc-copilot.retry",
+        async (retryRequest: RetryRequest) => {
+            globalThis.globalState.retryRequest = retryRequest;
+
+            vscode.commands.executeCommand(
+                "workbench.action.chat.open",
+                "@connext /retry"
+            );
+        }
+    );
+
+    context.subscriptions.push(cidpRetry);
+
+    // If we detect that the accessToken has changed, we need to reconnect
+    // the socket, otherwise the server will reject the connection because the
+    // token is invalid (expired). Switching environments also changes the
+    // token.
+    context.subscriptions.push(
+        Auth.onDidChangeLogin(async () => {
+            try {
+                if (await Auth.getStoredAccessToken()) {
+                    globalThis.globalState.connection.invalidate();
+                } else {
+                    globalThis.globalState.connection.disconnect(
+                        ConnectionState.AuthRequired,
+                        "Log in to Connext to ask questions."
+                    );
+                }
+            } catch (error) {
+                // For example, the client credentials were rejected
+                globalThis.globalState.connection.disconnect(
+                    ConnectionState.AuthRequired,
+                    `Error getting the access token: ${error}`
+                );
+            }
+        })
+    );
 
     let extensionContext = context;
 
@@ -702,9 +877,8 @@ export async function activate(context: vscode.ExtensionContext) {
                 return result;
             }
 
-            let intelligencePlatformUrl: string | undefined = config.get(
-                "intelligencePlatformUrl"
-            );
+            let intelligencePlatformUrl =
+                getActiveEnvironment().intelligencePlatformUrl;
 
             let useAllOpenFiles: boolean | undefined = config.get(
                 "useAllOpenFilesForContext"
@@ -714,25 +888,30 @@ export async function activate(context: vscode.ExtensionContext) {
                 useAllOpenFiles = false;
             }
 
-            if (
-                globalState.selectedIntelligencePlatformUrl !=
-                    intelligencePlatformUrl &&
-                globalThis.globalState.socket != undefined
-            ) {
-                globalThis.globalState.socket.disconnect();
-                globalThis.globalState.socket = undefined;
-                globalThis.globalState.connectionReady = false;
-            }
-
-            globalState.selectedIntelligencePlatformUrl =
-                intelligencePlatformUrl;
+            const useSessionMemory = config.get<boolean>("useSessionMemory", false);
+            const transport = config.get<string>("transport", "auto");
+            const requestTimeout = config.get<number>("requestTimeout", 180);
 
             // token.onCancellationRequested(() => {
             // });
 
             globalState.lastPrompt = request.prompt;
 
-            if (request.command === "generateSystemXmlModel") {
+            let retryRequest: RetryRequest | undefined = undefined;
+
+            if (request.command === "retry") {
+                retryRequest = globalState.retryRequest;
+                globalState.retryRequest = undefined;
+
+                if (retryRequest === undefined) {
+                    response.markdown(
+                        "There is no request to retry. Use the 'Retry' button shown below an incomplete answer."
+                    );
+                    return result;
+                }
+
+                globalState.lastPrompt = retryRequest.prompt;
+            } else if (request.command === "generateSystemXmlModel") {
                 useAllOpenFiles = true;
                 let newPrompt = getGenerateSystemXmlModelPrompt(
                     request.references,
@@ -753,10 +932,14 @@ export async function activate(context: vscode.ExtensionContext) {
 
             }
 
+            const replayFixture = getReplayFixture();
+
             // If we don't have an access token, this means the user has not
             // logged in yet, otherwise this will always return a valid token.
-            let accessToken = await Auth.getAccessToken();
-            if (!accessToken) {
+            // The recorded answers are replayed without logging in.
+            let accessToken =
+                replayFixture !== undefined ? "" : await Auth.getAccessToken();
+            if (accessToken === undefined) {
                 showInformationMessage(`No access token found. Try to log in.`);
                 try {
                     await vscode.commands.executeCommand(
@@ -770,21 +953,17 @@ export async function activate(context: vscode.ExtensionContext) {
                 }
             }
 
-            if (request.command === "startAdminConsole") {
-                runApplicationCommand("rtiadminconsole");
-                response.markdown("Starting RTI Admin Console...");
-                return result;
-            } else if (request.command === "startSystemDesigner") {
-                runApplicationCommand("rtisystemdesigner");
-                response.markdown("Starting RTI System Designer...");
-                return result;
-            } else if (request.command === "startMonitorUI") {
-                runApplicationCommand("rtimonitor");
-                response.markdown("Starting RTI Monitor...");
-                return result;
-            } else if (request.command === "startShapesDemo") {
-                runApplicationCommand("rtishapesdemo");
-                response.markdown("Starting RTI Shapes Demo...");
+            const requestedTool = findToolBySlashCommand(request.command);
+
+            if (requestedTool !== undefined) {
+                // The prompt of a command-line tool holds its arguments
+                runToolCommand(
+                    requestedTool,
+                    requestedTool.kind === "cli"
+                        ? parseToolArguments(request.prompt)
+                        : []
+                );
+                response.markdown(`Starting ${requestedTool.name}...`);
                 return result;
             } else if (request.command === "drawSystem") {
                 response.markdown("Opening draw.io...");
@@ -807,195 +986,191 @@ export async function activate(context: vscode.ExtensionContext) {
                 return result;
             }
 
-            let socket;
             globalState.lastResponse = "";
 
-            if (
-                globalThis.globalState.socket == undefined ||
-                !globalThis.globalState.connectionReady
-            ) {
-                if (intelligencePlatformUrl === undefined) {
-                    showErrorMessage(`Intelligence Platform URL is not set.`);
-                    result.metadata.error = true;
-                    return result;
-                }
-
-                globalThis.globalState.socket = io(intelligencePlatformUrl, {
-                    extraHeaders: {
-                        authorization: `bearer ${accessToken}`,
-                    },
-                    reconnectionAttempts: 3,
-                });
+            if (!intelligencePlatformUrl) {
+                showErrorMessage(`Intelligence Platform URL is not set.`);
+                result.metadata.error = true;
+                return result;
+            }
 
-                socket = globalThis.globalState.socket;
+            const connection = globalThis.globalState.connection;
+            let sender: RequestSender | undefined = undefined;
 
-                socket.on("connect", () => {
-                    globalThis.globalState.connectionReady = true;
-                });
+            if (replayFixture !== undefined) {
+                // Answer from the recorded conversations without contacting
+                // the server
+                sender = new ReplaySender(replayFixture);
+            } else if (
+                transport === "websocket" ||
+                (transport === "auto" && connection.shouldTryWebSocket())
+            ) {
+                sender = await connection.connect(
+                    intelligencePlatformUrl,
+                    getConnectionTimeout(),
+                    token
+                );
+            }
 
-                socket.on("disconnect", () => {
-                    globalThis.globalState.socket = undefined;
-                    globalThis.globalState.connectionReady = false;
-                });
+            if (token.isCancellationRequested) {
+                // No need to shutdown the connection because we have not
+                // sent any messages yet
+                result.metadata.cancel = true;
+                return result;
+            }
 
-                socket.on("connect_error", (err: Error) => {
-                    if (err.message != "") {
-                        showErrorMessage(
-                            `Error connecting to Socket.IO server: ${err}`
-                        );
-                    } else {
-                        showErrorMessage(
-                            `Error connecting to Socket.IO server`
+            // Stream the answer over HTTP when WebSockets are disabled or
+            // blocked, for example, by a proxy
+            if (
+                sender === undefined &&
+                transport !== "websocket" &&
+                connection.currentState !== ConnectionState.AuthRequired &&
+                accessToken
+            ) {
+                const httpUrl = getIntelligencePlatformHttpUrl();
+
+                if (httpUrl !== undefined) {
+                    if (connection.currentState !== ConnectionState.HttpStreaming) {
+                        connection.useHttpStreaming(
+                            transport === "http"
+                                ? "Answers are streamed over HTTP as configured in the settings."
+                                : "The WebSocket connection failed. Answers are streamed over HTTP."
                         );
                     }
-                });
-
-                await waitForCondition(
-                    () =>
-                        globalThis.globalState.connectionReady ||
-                        token.isCancellationRequested,
-                    10000,
-                    100
-                );
 
-                if (token.isCancellationRequested) {
-                    // No need to shutdown socket because we have not sent
-                    // any messages yet
-                    result.metadata.cancel = true;
-                    return result;
+                    sender = new HttpStreamingSender(httpUrl, accessToken);
                 }
+            }
 
-                if (!globalThis.globalState.connectionReady) {
-                    showErrorMessage(`Connection to the server failed.`);
-                    result.metadata.error = true;
-                    return result;
-                }
-            } else {
-                socket = globalThis.globalState.socket;
+            if (sender === undefined) {
+                const reason = connection.stateReason;
+                showErrorMessage(
+                    reason !== undefined
+                        ? `Connection to the server failed: ${reason}`
+                        : `Connection to the server failed.`
+                );
+                result.metadata.error = true;
+                return result;
             }
 
-            let responseReceived = false;
+            if (getRecordFile() !== undefined) {
+                sender = new RecordingSender(sender);
+            }
 
-            socket.on("response", (data: string) => {
-                // Convert the data (received as a JSON string) to an object
-                let parsedData;
+            let answer = "";
+            const requestId = generateRequestId();
 
-                try {
-                    parsedData = JSON.parse(data);
-                } catch (error) {
-                    showErrorMessage(
-                        `Failed to parse response from server: ${error}`
-                    );
-                    responseReceived = true;
-                    result.metadata.error = true;
-                    return result;
-                }
+            let jsonPayload: RetryRequest["payload"];
 
-                // Check if there's an error in the response
-                if (parsedData.error) {
-                    showErrorMessage(
-                        `Error processing request in server: ${parsedData.error_description}`
+            if (retryRequest !== undefined) {
+                // Send the same request again with a new id, so that it is
+                // not confused with the one that did not finish
+                jsonPayload = { ...retryRequest.payload, id: requestId };
+            } else {
+                let session = undefined;
+
+                // The recorded answers are replayed without server sessions
+                if (useSessionMemory && replayFixture === undefined && accessToken) {
+                    session = await globalState.sessions.getSession(
+                        context,
+                        accessToken
                     );
-                    responseReceived = true;
-                    result.metadata.error = true;
-                    return result;
                 }
 
-                if (parsedData.last_token && parsedData.last_token === true) {
-                    responseReceived = true;
-                } else {
-                    globalState.lastResponse += parsedData.token;
-                    response.markdown(parsedData.token);
+                jsonPayload = {
+                    id: requestId,
+                    question: getPrompt(
+                        globalState.lastPrompt,
+                        globalState.installations,
+                        request.references,
+                        null,
+                        context,
+                        true,
+                        useAllOpenFiles,
+                        // The server already knows the previous turns of
+                        // an existing session
+                        session === undefined || session.isNew
+                    ),
+                    base64_images: getImages(
+                        request.references,
+                        useAllOpenFiles),
+                    session_memory: session !== undefined,
+                };
+
+                if (session !== undefined) {
+                    jsonPayload.session_id = session.id;
                 }
-            });
-
-            const jsonPayload = {
-                id: generateRequestId(),
-                question: getPrompt(
-                    globalState.lastPrompt,
-                    globalState.installations,
-                    request.references,
-                    null,
-                    context,
-                    true,
-                    useAllOpenFiles
-                ),
-                base64_images: getImages(
-                    request.references,
-                    useAllOpenFiles),
-                session_memory: false,
-            };
+            }
 
-            socket.emit("message", JSON.stringify(jsonPayload));
+            result.metadata.sessionId = jsonPayload.session_id;
 
-            await waitForCondition(
-                () =>
-                    responseReceived ||
-                    !globalThis.globalState.connectionReady ||
-                    token.isCancellationRequested,
-                180000,
-                100
+            const requestResult = await sender.send(
+                jsonPayload,
+                (responseToken: string) => {
+                    answer += responseToken;
+                    response.markdown(responseToken);
+                },
+                requestTimeout * 1000,
+                token
             );
 
-            if (!responseReceived) {
-                /* Cancelled or timed out */
-                if (!token.isCancellationRequested) {
-                    showErrorMessage(`Request timed out.`);
+            globalState.lastResponse = answer;
+
+            if (
+                requestResult.outcome === RequestOutcome.TimedOut ||
+                requestResult.outcome === RequestOutcome.Disconnected
+            ) {
+                if (answer !== "") {
+                    response.markdown(globalState.TRUNCATED_ANSWER_WARNING);
                 }
-            } else {
-                let relatedApplication = await getRelatedApplication(
-                    [
-                        "RTI Admin Console",
-                        "RTI System Designer",
-                        "RTI Monitor",
-                        "RTI Shapes Demo",
+
+                response.button({
+                    command: "connext-vc-copilot.retry",
+                    title: vscode.l10n.t("Retry"),
+                    arguments: [
+                        {
+                            prompt: globalState.lastPrompt ?? "",
+                            payload: jsonPayload,
+                        },
                     ],
+                });
+            }
+
+            if (requestResult.outcome === RequestOutcome.Error) {
+                showErrorMessage(
+                    `Error processing request in server: ${requestResult.errorDescription}`
+                );
+                result.metadata.error = true;
+            } else if (requestResult.outcome === RequestOutcome.TimedOut) {
+                showErrorMessage(`Request timed out.`);
+                result.metadata.error = true;
+            } else if (requestResult.outcome === RequestOutcome.Disconnected) {
+                showErrorMessage(`Connection to the server was lost.`);
+                result.metadata.error = true;
+            } else if (requestResult.outcome === RequestOutcome.Completed) {
+                let relatedApplication = await getRelatedApplication(
+                    CONNEXT_TOOLS.filter(
+                        (tool) => tool.command !== undefined
+                    ).map((tool) => tool.name),
                     globalState.lastPrompt,
                     token
                 );
-
-                if (relatedApplication != null) {
-                    if (relatedApplication == "RTI Admin Console") {
-                        response.button({
-                            command: "connext-vc-copilot.run-admin-console",
-                            title: vscode.l10n.t("Start Admin Console"),
-                            arguments: [],
-                        });
-                    } else if (relatedApplication == "RTI System Designer") {
-                        response.button({
-                            command: "connext-vc-copilot.run-system-designer",
-                            title: vscode.l10n.t("Start System Designer"),
-                            arguments: [],
-                        });
-                    } else if (relatedApplication == "RTI Monitor") {
-                        response.button({
-                            command: "connext-vc-copilot.run-monitor-ui",
-                            title: vscode.l10n.t("Start Monitor"),
-                            arguments: [],
-                        });
-                    } else {
-                        response.button({
-                            command: "connext-vc-copilot.run-shapes-demo",
-                            title: vscode.l10n.t("Start Shapes Demo"),
-                            arguments: [],
-                        });
-                    }
+                const relatedTool =
+                    relatedApplication != null
+                        ? findToolByName(relatedApplication)
+                        : undefined;
+
+                if (relatedTool?.command !== undefined) {
+                    response.button({
+                        command: `connext-vc-copilot.${relatedTool.command}`,
+                        title: vscode.l10n.t(getStartButtonTitle(relatedTool)),
+                        arguments: [],
+                    });
                 }
             }
 
-            socket.off("response");
-
             if (token.isCancellationRequested) {
                 result.metadata.cancel = true;
-
-                /*
-                 * Instead of closing the socket, we could send a message to
-                 * the server to cancel the request. However, this flow is not
-                 * implemented in the server yet.
-                 */
-                socket.disconnect();
-                globalThis.globalState.socket = undefined;
-                globalThis.globalState.connectionReady = false;
             }
 
             return result;
@@ -1013,10 +1188,7 @@ export async function activate(context: vscode.ExtensionContext) {
             }
 
             if (
-                result.metadata.command != "startAdminConsole" &&
-                result.metadata.command != "startSystemDesigner" &&
-                result.metadata.command != "startMonitorUI" &&
-                result.metadata.command != "startShapesDemo" &&
+                findToolBySlashCommand(result.metadata.command) === undefined &&
                 result.metadata.command != "drawSystem" &&
                 result.metadata.command != "generateSystemXmlModel" &&
                 result.metadata.command != "connextInfo" &&
@@ -1044,3 +1216,21 @@ export async function activate(context: vscode.ExtensionContext) {
         "images/bot_avatar.png"
     );
 }
+
+/**
+ * Deactivates the extension.
+ *
+ * The server sessions created for the chat threads are deleted, since the
+ * threads cannot be continued after the extension is deactivated.
+ */
+export async function deactivate() {
+    try {
+        const accessToken = await Auth.getAccessToken();
+
+        if (accessToken) {
+            await globalThis.globalState.sessions.deleteAll(accessToken);
+        }
+    } catch (error) {
+        // Nothing to clean up if the user is not logged in
+    }
+}
@@ -0,0 +1,105 @@
+/*******************************************************************************
+ * (c) Copyright, Real-Time Innovations, 2024.
+ * All rights reserved.
+ * No duplications, whole or partial, manual or electronic, may be made
+ * without express written permission.  Any such copies, or
+ * revisions thereof, must display this notice unaltered.
+ * This code contains trade secrets of Real-Time Innovations, Inc.
+ */
+
+import * as fs from "fs";
+
+/**
+ * A recorded or scripted answer of the Intelligence Platform.
+ *
+ * An answer is selected when the question of a request is equal to
+ * `question`, or when it matches the regular expression in `match`. The
+ * answer is streamed from `tokens` if present, otherwise `response` is split
+ * into words. If `error` is set, the request fails with that description.
+ */
+export interface FixtureAnswer {
+    question?: string;
+    match?: string;
+    tokens?: string[];
+    response?: string;
+    error?: string;
+
+    /**
+     * The rest of the recorded request (id, images, session), kept for
+     * reference. It is not used to select the answer.
+     */
+    payload?: { [key: string]: any };
+}
+
+/**
+ * The content of a fixture file. Fixture files are written by the recorder
+ * of the extension and read by the replayer and by the mock Intelligence
+ * Platform.
+ */
+export interface Fixture {
+    answers: FixtureAnswer[];
+    defaultResponse?: string;
+}
+
+/**
+ * Reads a fixture file.
+ *
+ * @param filePath - The path of the fixture file.
+ * @returns The fixture, or an empty fixture if the file does not exist.
+ * @throws If the file cannot be read or parsed.
+ */
+export function readFixture(filePath: string): Fixture {
+    if (!fs.existsSync(filePath)) {
+        return { answers: [] };
+    }
+
+    const fixture = JSON.parse(fs.readFileSync(filePath, "utf8"));
+
+    if (!Array.isArray(fixture.answers)) {
+        throw new Error(`Invalid fixture file ${filePath}: missing answers.`);
+    }
+
+    return fixture;
+}
+
+/**
+ * Selects the answer for a question. Exact questions and regular
+ * expressions are checked in the order of the fixture.
+ *
+ * @param fixture - The fixture to search.
+ * @param question - The question sent to the Intelligence Platform.
+ * @returns The first matching answer, or `undefined` if none matches.
+ */
+export function findAnswer(
+    fixture: Fixture,
+    question: string
+): FixtureAnswer | undefined {
+    for (const answer of fixture.answers) {
+        if (answer.question !== undefined && answer.question === question) {
+            return answer;
+        }
+
+        if (
+            answer.match !== undefined &&
+            new RegExp(answer.match, "s").test(question)
+        ) {
+            return answer;
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * Returns the tokens to stream for an answer.
+ *
+ * @param answer - The answer to stream.
+ * @returns The recorded tokens, or the words of the response.
+ */
+export function getAnswerTokens(answer: FixtureAnswer): string[] {
+    if (answer.tokens !== undefined) {
+        return answer.tokens;
+    }
+
+    return (answer.response ?? "").match(/\S+\s*|\s+/g) ?? [];
+}
@@ -9,10 +9,26 @@
 
 import * as vscode from "vscode";
 import * as path from "path";
-import * as fs from "fs";
-import * as xml2js from 'xml2js';
 
-import { showErrorMessage, runCommand } from "./utils";
+import { showErrorMessage, showWarningMessage } from "./utils";
+import { getToolProcessManager } from "./toolProcesses";
+import {
+    Architecture,
+    Installation,
+    discoverInstallations,
+    getDefaultInstallation,
+    getInstallationSearchPaths,
+    getSystemSearchPaths,
+    InstallationEnvironment,
+    resolveArchitectureEnvironment,
+} from "./core/installation";
+import { findToolByExecutable } from "./core/tools";
+
+export {
+    Architecture,
+    Installation,
+    getDefaultInstallation,
+} from "./core/installation";
 
 /**
  * Key used to store the default installation directory for Connext.
@@ -24,6 +40,25 @@ const CONNEXT_DEFAULT_INSTALLATION_DIR_KEY = "connextDefaultInstallation";
  */
 const CONNEXT_DEFAULT_ARCHITECTURE_KEY = "connextDefaultArchitecture";
 
+/**
+ * Where the default installation and architecture come from:
+ * - "setting": The `connext.installation` and `connext.architecture`
+ *   settings, usually in the `.vscode/settings.json` file of the workspace.
+ * - "workspace": The selection made for the current workspace.
+ * - "global": The selection shared by all workspaces.
+ */
+export type InstallationSelectionSource = "setting" | "workspace" | "global";
+
+/**
+ * The default installation and architecture selected by the user.
+ */
+interface InstallationSelection {
+    source: InstallationSelectionSource;
+    installationDir?: string;
+    version?: string;
+    architecture?: string;
+}
+
 /**
  * A global variable to hold the context of the VS Code extension.
  * This context is provided when the extension is activated and can be used
@@ -34,402 +69,228 @@ const CONNEXT_DEFAULT_ARCHITECTURE_KEY = "connextDefaultArchitecture";
  */
 let EXTENSION_CONTEXT: vscode.ExtensionContext | undefined = undefined;
 
+const onDidChangeDefaultInstallationEmitter = new vscode.EventEmitter<void>();
+
 /**
- * Represents a system architecture with a name, environment setup command, and a default flag.
+ * Fired when the user selects a new default installation or clears the
+ * selection made for the workspace.
  */
-export class Architecture {
-    /**
-     * Indicates whether this architecture is the default.
-     */
-    default: boolean;
-
-    /**
-     * The name of the architecture.
-     */
-    name: string;
-
-    /**
-     * The command to set up the environment for this architecture.
-     */
-    setEnvCmd: string;
-
-    /**
-     * The command to set up the environment for this architecture when
-     * running a tool.
-     */
-    toolEnvCmd: string;
-
-    /**
-     * Creates an instance of the Architecture class.
-     * @param name - The name of the architecture.
-     * @param setEnvCmd - The command to set up the environment for this architecture.
-     * @param defaultArch - Indicates whether this architecture is the default.
-     */
-    constructor(name: string, setEnvCmd: string, defaultArch: boolean = false) {
-        this.name = name;
-        this.setEnvCmd = setEnvCmd;
-        this.default = defaultArch;
-
-        /* Replace extension with bash */
-        this.toolEnvCmd = setEnvCmd;
-    }
-}
+export const onDidChangeDefaultInstallation =
+    onDidChangeDefaultInstallationEmitter.event;
 
 /**
- * Represents an installation with a specified directory and supported architectures.
+ * Returns the default installation and architecture selected by the user.
+ * The `connext.installation` and `connext.architecture` settings take
+ * precedence over the selection made for the workspace, which takes
+ * precedence over the selection shared by all workspaces.
+ *
+ * The `connext.installation` setting is either an installation directory or
+ * a version such as "7.3.0". When only the `connext.architecture` setting is
+ * set, the installation is taken from the selection.
+ *
+ * @returns The selection, or undefined if the user did not select one.
  */
-export class Installation {
-    /**
-     * Indicates whether this installation is the default one.
-     */
-    default: boolean;
-
-    /**
-     * The directory where the installation is located.
-     */
-    directory: string;
-
-    /**
-     * The version of the installation.
-     */
-    version: string | undefined;
-
-    /**
-     * The architectures supported by this installation.
-     */
-    architectures: Architecture[];
-
-    /**
-     * Creates an instance of Installation.
-     * @param directory - The directory where the installation is located.
-     * @param version - The version of the installation.
-     * @param architectures - The architectures supported by this installation.
-     * @param defaultInstallation - Indicates whether this installation is the default one.
-     */
-    constructor(
-        directory: string,
-        version: string | undefined,
-        architectures: Architecture[],
-        defaultInstallation: boolean = false
-    ) {
-        this.directory = directory.replace(/\\/g, "/");
-        this.version = version;
-        this.architectures = architectures;
-        this.default = defaultInstallation;
+function getInstallationSelection(): InstallationSelection | undefined {
+    const configuration = vscode.workspace.getConfiguration("connext");
+    const installationSetting = configuration.get<string>("installation", "");
+    const architectureSetting = configuration.get<string>("architecture", "");
+
+    if (installationSetting !== "") {
+        const isDirectory =
+            /[\\/]/.test(installationSetting) ||
+            installationSetting.startsWith("~");
+
+        return {
+            source: "setting",
+            installationDir: isDirectory ? installationSetting : undefined,
+            version: !isDirectory ? installationSetting : undefined,
+            architecture: architectureSetting || undefined,
+        };
     }
 
-    /**
-     * Retrieves the names of the architectures supported by this installation.
-     * @returns An array of architecture names.
-     */
-    architecture_names(): string[] {
-        let names: string[] = [];
+    const selection = getStoredInstallationSelection();
 
-        for (let arch of this.architectures) {
-            names.push(arch.name);
-        }
-
-        return names;
+    if (architectureSetting !== "") {
+        return {
+            ...selection,
+            source: "setting",
+            architecture: architectureSetting,
+        };
     }
+
+    return selection;
 }
 
 /**
- * Synchronously retrieves the product version from an XML file.
+ * Returns the installation and architecture selected in the Connext view,
+ * for the workspace or shared by all workspaces.
  *
- * @param filePath - The path to the XML file containing the product version information.
- * @returns The base version as a string if found, otherwise `undefined`.
- *
- * @throws Will throw an error if the file cannot be read.
+ * @returns The selection, or undefined if the user did not select one.
  */
-function getProductVersionSync(filePath: string): string | undefined {
-    try {
-        const xmlData = fs.readFileSync(filePath, 'utf8');
-        let baseVersion: string | undefined = undefined;
-        const parser = new xml2js.Parser({ explicitArray: false });
-
-        parser.parseString(xmlData, (err, result) => {
-            if (err) {
-                console.error('Error parsing XML:', err);
-                return;
-            }
-            baseVersion = result.rti.host.base_version;
-        });
-
-        return baseVersion;
-    } catch (err) {
-        return undefined;
+function getStoredInstallationSelection(): InstallationSelection | undefined {
+    for (const [source, state] of [
+        ["workspace", EXTENSION_CONTEXT?.workspaceState],
+        ["global", EXTENSION_CONTEXT?.globalState],
+    ] as const) {
+        const installationDir = state?.get<string>(
+            CONNEXT_DEFAULT_INSTALLATION_DIR_KEY
+        );
+
+        if (installationDir !== undefined) {
+            return {
+                source: source,
+                installationDir: installationDir,
+                architecture: state?.get<string>(
+                    CONNEXT_DEFAULT_ARCHITECTURE_KEY
+                ),
+            };
+        }
     }
+
+    return undefined;
 }
 
 /**
- * Finds the architecture directories within the given installation path.
+ * Returns where the default installation and architecture come from.
  *
- * @param installationPath - The path to the installation directory.
- * @returns An array of directory names that do not start with "java", or `undefined` if an error occurs.
+ * @returns The source of the selection, or undefined if the user did not
+ * select one and the default is NDDSHOME or the only installation.
  */
-function findArchitecture(installationPath: string): string[] | undefined {
-    const libPath = path.join(installationPath, "lib");
-
-    try {
-        // Read the contents of the lib directory synchronously
-        const files = fs.readdirSync(libPath);
-
-        // Filter the files to find the directories that don't start with "java"
-        const matchingDirs = files.filter((file) => {
-            const fullPath = path.join(libPath, file);
-            try {
-                return (
-                    fs.statSync(fullPath).isDirectory() &&
-                    !file.startsWith("java")
-                );
-            } catch (e) {
-                return false;
-            }
-        });
-
-        let result: string[] = [];
-
-        for (let dir of matchingDirs) {
-            result.push(dir);
-        }
-
-        return result;
-    } catch (err) {
-        return undefined; // Return undefined if there is an error reading the directory
-    }
+export function getInstallationSelectionSource():
+    | InstallationSelectionSource
+    | undefined {
+    return getInstallationSelection()?.source;
 }
 
 /**
- * Finds the RTI Connext DDS installation directories on the system.
- *
- * This function searches for directories that start with "rti_connext_dds-" in the
- * appropriate parent directory based on the operating system:
- * - On Linux, it searches in the user's home directory.
- * - On macOS, it searches in the "/Applications" directory.
- * - On Windows, it searches in the "Program Files" directory.
+ * Builds the environment to discover the installations with: the process
+ * platform and environment variables, the common system locations, the
+ * locations in the `connext.installationSearchPaths` setting and the
+ * installation and architecture selected by the user, see
+ * `getInstallationSelection`.
  *
- * Additionally, if the `NDDSHOME` environment variable is set, its value is included
- * in the result if it is not already present.
- *
- * @returns {string[] | undefined} An array of paths to the RTI Connext DDS directories,
- * or `undefined` if no directories are found or an error occurs.
+ * @returns The installation environment.
  */
-function findRTIConnextDDSDirectory(): string[] | undefined {
-    let parentDir: string | undefined = undefined;
-
-    if (process.platform === "linux") {
-        parentDir = process.env.HOME || process.env.USERPROFILE;
-    } else if (process.platform === "darwin") {
-        parentDir = "/Applications";
-    } else if (process.platform === "win32") {
-        parentDir = process.env.ProgramFiles;
-    }
-
-    if (!parentDir) {
-        return undefined;
-    }
-
-    let result: string[] = [];
-
-    try {
-        // Read the contents of the home directory synchronously
-        const files = fs.readdirSync(parentDir);
-
-        // Filter the files to find directories that start with "rti_connext_dds-"
-        const matchingDirs = files.filter((file) => {
-            const fullPath = path.join(parentDir, file);
-            try {
-                return (
-                    fs.statSync(fullPath).isDirectory() &&
-                    file.startsWith("rti_connext_dds-")
-                );
-            } catch (e) {
-                return false;
-            }
-        });
-
-        for (let dir of matchingDirs) {
-            result.push(path.join(parentDir, dir));
-        }
-    } catch (err) {
-        return undefined;
-    }
-
-    if (process.env.NDDSHOME) {
-        /* Push if not present */
-        if (!result.includes(process.env.NDDSHOME)) {
-            result.push(process.env.NDDSHOME);
-        }
-    }
-
-    return result;
+function getInstallationEnvironment(): InstallationEnvironment {
+    const userSearchPaths = vscode.workspace
+        .getConfiguration("connext")
+        .get<string[]>("installationSearchPaths", []);
+    const selection = getInstallationSelection();
+
+    return {
+        platform: process.platform,
+        env: process.env,
+        searchPaths: [
+            ...getSystemSearchPaths(process.platform, process.env),
+            ...userSearchPaths,
+        ],
+        defaultInstallationDir: selection?.installationDir,
+        defaultVersion: selection?.version,
+        defaultArchitecture: selection?.architecture,
+    };
 }
 
 /**
- * Retrieves a list of RTI Connext DDS installations.
- *
- * This function searches for RTI Connext DDS installation directories and
- * their corresponding architectures. It constructs an array of `Installation`
- * objects, each containing the directory path and an array of `Architecture`
- * objects with the appropriate environment setup commands.
+ * Retrieves a list of RTI Connext DDS installations on this system, marking
+ * the installation and architecture selected by the user as the default
+ * ones. The common system locations and the locations in the
+ * `connext.installationSearchPaths` setting are searched.
  *
  * @returns {Installation[]} An array of `Installation` objects representing
  * the found RTI Connext DDS installations. If no installations are found,
  * an empty array is returned.
  */
 export function getConnextInstallations(): Installation[] {
-    let installations: Installation[] = [];
-    let installationDirectories = findRTIConnextDDSDirectory();
-
-    if (
-        installationDirectories == undefined ||
-        installationDirectories.length == 0
-    ) {
-        return [];
-    }
-
-    // Get the default installation directory and architecture from the global state
-    let defaultInstallationDir = undefined;
-
-    if (EXTENSION_CONTEXT != undefined) {
-        defaultInstallationDir = EXTENSION_CONTEXT.globalState.get(
-            CONNEXT_DEFAULT_INSTALLATION_DIR_KEY
-        );
-    }
-
-    let count = 1;
-
-    for (let dir of installationDirectories) {
-        let architecturesNames = findArchitecture(dir);
-
-        let version = getProductVersionSync(path.join(dir, "rti_versions.xml"));
-
-        let defaultInstallation = false;
-
-        if (defaultInstallationDir == dir) {
-            defaultInstallation = true;
-        } else if (
-            process.env.NDDSHOME == dir ||
-            installationDirectories.length == 1
-        ) {
-            defaultInstallation = true;
-        }
-
-        if (architecturesNames == undefined || architecturesNames.length == 0) {
-            installations.push(new Installation(dir, version, [], defaultInstallation));
-            continue;
-        }
-
-        if (
-            process.platform === "linux" ||
-            process.platform === "darwin" ||
-            process.platform === "win32"
-        ) {
-            let shellCmd = process.env.SHELL;
-
-            if (shellCmd == undefined) {
-                shellCmd = "/bin/bash";
-            }
-
-            let shell = "bash";
-
-            if (shellCmd.endsWith("zsh")) {
-                shell = "zsh";
-            } else if (shellCmd.endsWith("tcsh")) {
-                shell = "tcsh";
-            } else if (process.platform === "win32") {
-                shell = "bat";
-            }
-
-            let defaultArchitecture = undefined;
-
-            if (EXTENSION_CONTEXT != undefined) {
-                defaultArchitecture = EXTENSION_CONTEXT.globalState.get(
-                    CONNEXT_DEFAULT_ARCHITECTURE_KEY
-                );
-            }
-
-            let architectures: Architecture[] = [];
-
-            for (let arch of architecturesNames) {
-                let setEnvCmd = undefined;
-
-                if (process.platform === "win32") {
-                    setEnvCmd = `"${dir}/resource/scripts/rtisetenv_${arch}"`;
-                } else {
-                    setEnvCmd = `source ${dir}/resource/scripts/rtisetenv_${arch}.${shell}`;
-                }
-
-                let defaultArch = false;
-
-                if (defaultInstallation) {
-                    if (defaultArchitecture == arch) {
-                        defaultArch = true;
-                    } else if (architecturesNames.length == 1) {
-                        defaultArch = true;
-                    }
-                }
-
-                architectures.push(
-                    new Architecture(arch, setEnvCmd, defaultArch)
-                );
-            }
-
-            installations.push(
-                new Installation(dir, version, architectures, defaultInstallation)
-            );
-        }
-
-        count++;
-    }
-
-    return installations;
+    return discoverInstallations(getInstallationEnvironment());
 }
 
 /**
- * Retrieves the default installation and its default architecture from a list of installations.
+ * Retrieves the locations searched for RTI Connext DDS installations.
  *
- * @param installations - An array of `Installation` objects to search through.
- * @returns A tuple containing the default `Installation` and its default `Architecture`,
- *          or `undefined` if no default installation or architecture is found.
+ * @returns The directories that contain the installations.
  */
-export function getDefaultInstallation(
-    installations: Installation[]
-): [Installation, Architecture] | undefined {
-    for (let installation of installations) {
-        if (installation.default) {
-            for (let arch of installation.architectures) {
-                if (arch.default) {
-                    return [installation, arch];
-                }
-            }
-        }
-    }
-
-    return undefined;
+export function getInstallationLocations(): string[] {
+    return getInstallationSearchPaths(getInstallationEnvironment());
 }
 
+/**
+ * Runs a tool in the environment of the default installation and
+ * architecture.
+ *
+ * @param installations - The installations.
+ * @param applicationName - The executable name of the tool.
+ * @param args - The arguments of the tool.
+ */
 export function runApplication(
     installations: Installation[] | undefined,
-    applicationName: string
+    applicationName: string,
+    args: string[] = []
 ) {
-    let command = applicationName;
+    let architecture: Architecture | undefined = undefined;
 
     if (installations != undefined) {
         let defaultInstallation = getDefaultInstallation(installations);
 
         if (defaultInstallation != undefined) {
-            command =
-                defaultInstallation[1].toolEnvCmd + " && " + applicationName;
+            architecture = defaultInstallation[1];
         }
     }
 
-    // Use child_process.exec to run the external application
-    try{
-        runCommand(command);
+    runInstallationTool(architecture, applicationName, args);
+}
+
+/**
+ * Returns the environment variables to run the tools of an architecture
+ * with, produced by its `rtisetenv_<arch>` script. The script is only run
+ * once per architecture.
+ *
+ * @param architecture - The architecture, or undefined to use the
+ * environment of VS Code.
+ * @returns The environment variables.
+ * @throws If the environment script fails.
+ */
+export async function getToolEnvironment(
+    architecture: Architecture | undefined
+): Promise<NodeJS.ProcessEnv> {
+    if (architecture === undefined) {
+        return process.env;
+    }
+
+    return resolveArchitectureEnvironment(
+        architecture,
+        process.platform,
+        process.env
+    );
+}
+
+/**
+ * Runs a tool in the environment of an architecture. The tool is tracked
+ * while it runs and its output is written to the "Connext Tools" output
+ * channel.
+ *
+ * @param architecture - The architecture whose environment is set before
+ * running the tool, or undefined to run the tool from the PATH.
+ * @param executable - The executable name or path of the tool.
+ * @param args - The arguments of the tool.
+ */
+export async function runInstallationTool(
+    architecture: Architecture | undefined,
+    executable: string,
+    args: string[] = []
+) {
+    const name = path.basename(executable);
+
+    try {
+        const env = await getToolEnvironment(architecture);
+        getToolProcessManager().launch(
+            findToolByExecutable(name)?.name ?? name,
+            executable,
+            args,
+            env
+        );
     } catch (e: any) {
         showErrorMessage(
-            `Error running command: ${e.message}`
+            `Error running ${executable}: ${e.message}`
         );
     }
 }
@@ -447,37 +308,100 @@ export function setExtensionContextForInstallation(
 
 /**
  * Sets the default installation and architecture from the provided list of installations.
+ *
+ * The selection is stored for all workspaces, or only for the current
+ * workspace. The user is warned when the `connext.installation` or
+ * `connext.architecture` settings override it.
  * 
  * @param installations - An array of `Installation` objects representing the available installations.
  * @param installation - The `Installation` object to be set as the default.
  * @param architecture - The `Architecture` object to be set as the default for the specified installation.
+ * @param scope - Whether the selection applies to all workspaces or only to the current one.
  */
-export function setDefaultInstallation(
+export async function setDefaultInstallation(
     installations: Installation[],
     installation: Installation,
-    architecture: Architecture
+    architecture: Architecture,
+    scope: "global" | "workspace" = "global"
 ) {
-    installations.forEach((installation) => {
-        installation.default = false;
+    if (EXTENSION_CONTEXT == undefined) {
+        return;
+    }
 
-        if (installation.directory === installation.directory) {
-            installation.architectures.forEach((arch) => {
-                arch.default = false;
-            });
-        }
-    });
+    const state =
+        scope === "workspace"
+            ? EXTENSION_CONTEXT.workspaceState
+            : EXTENSION_CONTEXT.globalState;
 
-    installation.default = true;
-    architecture.default = true;
+    await state.update(
+        CONNEXT_DEFAULT_INSTALLATION_DIR_KEY,
+        installation.directory
+    );
+    await state.update(CONNEXT_DEFAULT_ARCHITECTURE_KEY, architecture.name);
 
-    if (EXTENSION_CONTEXT != undefined) {
-        EXTENSION_CONTEXT.globalState.update(
-            CONNEXT_DEFAULT_INSTALLATION_DIR_KEY,
-            installation.directory
+    const source = getInstallationSelectionSource();
+
+    if (source === "setting") {
+        showWarningMessage(
+            "The connext.installation and connext.architecture settings override the selected default installation."
         );
-        EXTENSION_CONTEXT.globalState.update(
-            CONNEXT_DEFAULT_ARCHITECTURE_KEY,
-            architecture.name
+    } else if (scope === "global" && source === "workspace") {
+        showWarningMessage(
+            "The default installation selected for this workspace overrides the selected default installation."
         );
     }
-}
\ No newline at end of file
+
+    applyDefaultInstallation(installations);
+    onDidChangeDefaultInstallationEmitter.fire();
+}
+
+/**
+ * Forgets the default installation and architecture selected for the
+ * current workspace, so that the selection shared by all workspaces is
+ * used again.
+ *
+ * @param installations - The installations to update.
+ */
+export async function clearWorkspaceDefaultInstallation(
+    installations: Installation[]
+) {
+    if (EXTENSION_CONTEXT == undefined) {
+        return;
+    }
+
+    await EXTENSION_CONTEXT.workspaceState.update(
+        CONNEXT_DEFAULT_INSTALLATION_DIR_KEY,
+        undefined
+    );
+    await EXTENSION_CONTEXT.workspaceState.update(
+        CONNEXT_DEFAULT_ARCHITECTURE_KEY,
+        undefined
+    );
+
+    applyDefaultInstallation(installations);
+    onDidChangeDefaultInstallationEmitter.fire();
+}
+
+/**
+ * Marks the installation and architecture of the effective selection as the
+ * default ones in a list of installations.
+ *
+ * @param installations - The installations to update.
+ */
+function applyDefaultInstallation(installations: Installation[]) {
+    const current = getConnextInstallations();
+
+    for (const installation of installations) {
+        const match = current.find(
+            (other) => other.directory === installation.directory
+        );
+
+        installation.default = match?.default ?? false;
+
+        for (const arch of installation.architectures) {
+            arch.default =
+                match?.architectures.find((other) => other.name === arch.name)
+                    ?.default ?? false;
+        }
+    }
+}
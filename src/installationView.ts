@@ -0,0 +1,393 @@
+/*******************************************************************************
+ * (c) Copyright, Real-Time Innovations, 2024.
+ * All rights reserved.
+ * No duplications, whole or partial, manual or electronic, may be made
+ * without express written permission.  Any such copies, or
+ * revisions thereof, must display this notice unaltered.
+ * This code contains trade secrets of Real-Time Innovations, Inc.
+ */
+
+import * as vscode from "vscode";
+import * as path from "path";
+
+import {
+    Architecture,
+    findInstalledTools,
+    Installation,
+    InstalledPackage,
+} from "./core/installation";
+import {
+    clearWorkspaceDefaultInstallation,
+    getDefaultInstallation,
+    getInstallationSelectionSource,
+    onDidChangeDefaultInstallation,
+    runInstallationTool,
+    setDefaultInstallation,
+} from "./installation";
+import { InstallationWatcher } from "./installationWatcher";
+import { openConnextTerminal } from "./terminal";
+import { showInformationMessage } from "./utils";
+
+/**
+ * The id of the installations view, contributed in package.json.
+ */
+export const INSTALLATIONS_VIEW_ID = "connext-vc-copilot.installations";
+
+/**
+ * An element of the installations view.
+ */
+export type InstallationNode =
+    | { kind: "installation"; installation: Installation }
+    | {
+        kind: "group";
+        installation: Installation;
+        group: "architectures" | "tools" | "packages";
+    }
+    | {
+        kind: "architecture";
+        installation: Installation;
+        architecture: Architecture;
+    }
+    | {
+        kind: "tool";
+        installation: Installation;
+        executable: string;
+        name: string;
+    }
+    | { kind: "package"; installedPackage: InstalledPackage };
+
+/**
+ * Lists the installations, their architectures, tools and packages.
+ */
+class InstallationTreeProvider
+    implements vscode.TreeDataProvider<InstallationNode>
+{
+    private changeEmitter = new vscode.EventEmitter<void>();
+
+    readonly onDidChangeTreeData = this.changeEmitter.event;
+
+    constructor(private watcher: InstallationWatcher) {}
+
+    refresh() {
+        this.changeEmitter.fire();
+    }
+
+    dispose() {
+        this.changeEmitter.dispose();
+    }
+
+    getChildren(node?: InstallationNode): InstallationNode[] {
+        if (node === undefined) {
+            return this.watcher.currentInstallations.map((installation) => ({
+                kind: "installation",
+                installation: installation,
+            }));
+        }
+
+        if (node.kind === "installation") {
+            const groups: InstallationNode[] = [];
+
+            if (node.installation.architectures.length > 0) {
+                groups.push({ kind: "group", installation: node.installation, group: "architectures" });
+            }
+
+            if (this.getTools(node.installation).length > 0) {
+                groups.push({ kind: "group", installation: node.installation, group: "tools" });
+            }
+
+            if (node.installation.packages.length > 0) {
+                groups.push({ kind: "group", installation: node.installation, group: "packages" });
+            }
+
+            return groups;
+        } else if (node.kind === "group") {
+            const installation = node.installation;
+
+            switch (node.group) {
+                case "architectures":
+                    return installation.architectures.map((architecture) => ({
+                        kind: "architecture",
+                        installation: installation,
+                        architecture: architecture,
+                    }));
+                case "tools":
+                    return this.getTools(installation).map((tool) => ({
+                        kind: "tool",
+                        installation: installation,
+                        executable: tool.executable,
+                        name: tool.name,
+                    }));
+                case "packages":
+                    return installation.packages.map((installedPackage) => ({
+                        kind: "package",
+                        installedPackage: installedPackage,
+                    }));
+            }
+        }
+
+        return [];
+    }
+
+    getTreeItem(node: InstallationNode): vscode.TreeItem {
+        const collapsed = vscode.TreeItemCollapsibleState.Collapsed;
+        const none = vscode.TreeItemCollapsibleState.None;
+
+        switch (node.kind) {
+            case "installation": {
+                const item = new vscode.TreeItem(
+                    `Connext ${node.installation.version ?? "(unknown version)"}`,
+                    node.installation.default
+                        ? vscode.TreeItemCollapsibleState.Expanded
+                        : collapsed
+                );
+                item.description = node.installation.directory;
+                item.tooltip = node.installation.directory;
+                item.iconPath = new vscode.ThemeIcon(
+                    node.installation.default ? "star-full" : "package"
+                );
+                item.contextValue = "connextInstallation";
+                return item;
+            }
+            case "group": {
+                const labels = {
+                    architectures: "Architectures",
+                    tools: "Tools",
+                    packages: "Installed Packages",
+                };
+                const icons = {
+                    architectures: "chip",
+                    tools: "tools",
+                    packages: "extensions",
+                };
+                const item = new vscode.TreeItem(labels[node.group], collapsed);
+                item.iconPath = new vscode.ThemeIcon(icons[node.group]);
+                return item;
+            }
+            case "architecture": {
+                const isDefault =
+                    node.installation.default && node.architecture.default;
+                const item = new vscode.TreeItem(node.architecture.name, none);
+                item.description = isDefault ? "default" : undefined;
+                item.tooltip = node.architecture.setEnvCmd;
+                item.iconPath = new vscode.ThemeIcon(
+                    isDefault ? "star-full" : "circuit-board"
+                );
+                item.contextValue = isDefault
+                    ? "connextDefaultArchitecture"
+                    : "connextArchitecture";
+                return item;
+            }
+            case "tool": {
+                const item = new vscode.TreeItem(node.name, none);
+                item.description = node.executable;
+                item.iconPath = new vscode.ThemeIcon("tools");
+                item.contextValue = "connextTool";
+                return item;
+            }
+            case "package": {
+                const item = new vscode.TreeItem(node.installedPackage.name, none);
+                item.description =
+                    node.installedPackage.architecture !== undefined
+                        ? `${node.installedPackage.version} (${node.installedPackage.architecture})`
+                        : node.installedPackage.version;
+                item.iconPath = new vscode.ThemeIcon("package");
+                return item;
+            }
+        }
+    }
+
+    private getTools(installation: Installation) {
+        return findInstalledTools(installation.directory, process.platform);
+    }
+}
+
+/**
+ * Launches a tool of an installation in the environment of its default
+ * architecture, or of its first architecture if it has no default. Tools of
+ * installations without architectures are run from the `bin` directory.
+ *
+ * @param installation - The installation.
+ * @param executable - The executable name of the tool.
+ */
+function launchTool(installation: Installation, executable: string) {
+    const architecture =
+        installation.architectures.find((arch) => arch.default) ??
+        installation.architectures[0];
+
+    if (architecture !== undefined) {
+        runInstallationTool(architecture, executable);
+    } else {
+        runInstallationTool(
+            undefined,
+            path.join(installation.directory, "bin", executable)
+        );
+    }
+}
+
+/**
+ * Selects an architecture of the installations view as the default one.
+ *
+ * @param watcher - The watcher that keeps the installations up to date.
+ * @param node - The architecture node.
+ * @param scope - Whether the selection applies to all workspaces or only to
+ * the current one.
+ */
+async function selectDefault(
+    watcher: InstallationWatcher,
+    node: InstallationNode,
+    scope: "global" | "workspace"
+) {
+    if (node.kind !== "architecture") {
+        return;
+    }
+
+    await setDefaultInstallation(
+        watcher.currentInstallations,
+        node.installation,
+        node.architecture,
+        scope
+    );
+
+    showInformationMessage(
+        scope === "workspace"
+            ? `Selected ${node.installation.directory} (${node.architecture.name}) as default installation for this workspace.`
+            : `Selected ${node.installation.directory} (${node.architecture.name}) as default installation.`
+    );
+}
+
+/**
+ * Registers the installations view and its actions.
+ *
+ * @param context - The extension context.
+ * @param watcher - The watcher that keeps the installations up to date.
+ */
+export function registerInstallationView(
+    context: vscode.ExtensionContext,
+    watcher: InstallationWatcher
+) {
+    const provider = new InstallationTreeProvider(watcher);
+
+    context.subscriptions.push(
+        provider,
+        vscode.window.registerTreeDataProvider(INSTALLATIONS_VIEW_ID, provider),
+        watcher.onDidChangeInstallations(() => provider.refresh()),
+        onDidChangeDefaultInstallation(() => provider.refresh()),
+        vscode.commands.registerCommand(
+            "connext-vc-copilot.installations.set-default",
+            (node: InstallationNode) => selectDefault(watcher, node, "global")
+        ),
+        vscode.commands.registerCommand(
+            "connext-vc-copilot.installations.set-workspace-default",
+            (node: InstallationNode) => selectDefault(watcher, node, "workspace")
+        ),
+        vscode.commands.registerCommand(
+            "connext-vc-copilot.installations.clear-workspace-default",
+            async () => {
+                await clearWorkspaceDefaultInstallation(
+                    watcher.currentInstallations
+                );
+                showInformationMessage(
+                    "Cleared the default installation of this workspace."
+                );
+            }
+        ),
+        vscode.commands.registerCommand(
+            "connext-vc-copilot.installations.open-directory",
+            (node: InstallationNode) => {
+                if (node.kind === "installation") {
+                    vscode.commands.executeCommand(
+                        "revealFileInOS",
+                        vscode.Uri.file(node.installation.directory)
+                    );
+                }
+            }
+        ),
+        vscode.commands.registerCommand(
+            "connext-vc-copilot.installations.copy-env-command",
+            async (node: InstallationNode) => {
+                if (node.kind === "architecture") {
+                    await vscode.env.clipboard.writeText(node.architecture.setEnvCmd);
+                    showInformationMessage(`Copied the environment command of ${node.architecture.name}.`);
+                }
+            }
+        ),
+        vscode.commands.registerCommand(
+            "connext-vc-copilot.installations.open-terminal",
+            (node: InstallationNode) => {
+                if (node.kind === "architecture") {
+                    openConnextTerminal(node.installation, node.architecture);
+                }
+            }
+        ),
+        vscode.commands.registerCommand(
+            "connext-vc-copilot.installations.launch-tool",
+            (node: InstallationNode) => {
+                if (node.kind === "tool") {
+                    launchTool(node.installation, node.executable);
+                }
+            }
+        ),
+        createInstallationStatusBarItem(watcher)
+    );
+}
+
+/**
+ * Creates a status bar item that shows the effective default installation
+ * and architecture, and where the selection comes from. Clicking it shows
+ * the installations view.
+ *
+ * @param watcher - The watcher that keeps the installations up to date.
+ * @returns A disposable that removes the status bar item.
+ */
+function createInstallationStatusBarItem(
+    watcher: InstallationWatcher
+): vscode.Disposable {
+    const item = vscode.window.createStatusBarItem(
+        vscode.StatusBarAlignment.Right,
+        99
+    );
+    item.command = `${INSTALLATIONS_VIEW_ID}.focus`;
+
+    const sources = {
+        setting: "the connext.installation setting",
+        workspace: "the selection for this workspace",
+        global: "the selection for all workspaces",
+    };
+
+    const update = () => {
+        const defaultInstallation = getDefaultInstallation(
+            watcher.currentInstallations
+        );
+
+        if (defaultInstallation === undefined) {
+            item.text = "$(package) Connext: none";
+            item.tooltip = "No default Connext installation";
+            return;
+        }
+
+        const [installation, architecture] = defaultInstallation;
+        const source = getInstallationSelectionSource();
+
+        item.text = `$(package) Connext ${installation.version ?? "(unknown version)"} (${architecture.name})`;
+
+        const markdown = new vscode.MarkdownString();
+        markdown.appendText(installation.directory);
+        markdown.appendMarkdown("\n\n");
+        markdown.appendText(
+            source !== undefined
+                ? `Selected by ${sources[source]}`
+                : "Selected automatically"
+        );
+        item.tooltip = markdown;
+    };
+
+    update();
+    item.show();
+
+    const listeners = [
+        watcher.onDidChangeInstallations(update),
+        onDidChangeDefaultInstallation(update),
+    ];
+
+    return vscode.Disposable.from(item, ...listeners);
+}
@@ -0,0 +1,205 @@
+/*******************************************************************************
+ * (c) Copyright, Real-Time Innovations, 2024.
+ * All rights reserved.
+ * No duplications, whole or partial, manual or electronic, may be made
+ * without express written permission.  Any such copies, or
+ * revisions thereof, must display this notice unaltered.
+ * This code contains trade secrets of Real-Time Innovations, Inc.
+ */
+
+import * as vscode from "vscode";
+import * as path from "path";
+
+import { compareInstallations, Installation } from "./core/installation";
+import { getConnextInstallations, getInstallationLocations } from "./installation";
+import { showInformationMessage } from "./utils";
+
+/**
+ * The time to wait after the last file system change before searching the
+ * installations again, in milliseconds. Installers write many files, and
+ * the list is only rebuilt once they are done.
+ */
+const REFRESH_DELAY = 2000;
+
+/**
+ * Keeps the list of RTI Connext DDS installations up to date.
+ *
+ * The watcher observes the locations that contain the installations, to
+ * detect new and removed installations, and the `lib` directory of every
+ * installation, to detect new and removed architectures. The default
+ * installation selected by the user is kept, because it is persisted in
+ * the extension state or in the settings. The list is also rebuilt when
+ * the `connext.installation` or `connext.architecture` settings change.
+ */
+export class InstallationWatcher implements vscode.Disposable {
+    private installations: Installation[];
+    private watchers: vscode.FileSystemWatcher[];
+    private refreshTimer: NodeJS.Timeout | undefined;
+    private disposables: vscode.Disposable[];
+
+    private installationsEmitter: vscode.EventEmitter<Installation[]>;
+
+    /**
+     * Fired every time the list of installations is rebuilt.
+     */
+    readonly onDidChangeInstallations: vscode.Event<Installation[]>;
+
+    /**
+     * Creates the watcher and starts observing the installations.
+     *
+     * @param installations - The installations found at activation.
+     */
+    constructor(installations: Installation[]) {
+        this.installations = installations;
+        this.watchers = [];
+        this.refreshTimer = undefined;
+        this.installationsEmitter = new vscode.EventEmitter<Installation[]>();
+        this.onDidChangeInstallations = this.installationsEmitter.event;
+
+        this.disposables = [
+            this.installationsEmitter,
+            vscode.workspace.onDidChangeConfiguration((event) => {
+                if (event.affectsConfiguration("connext.installationSearchPaths")) {
+                    this.refresh(true);
+                } else if (
+                    event.affectsConfiguration("connext.installation") ||
+                    event.affectsConfiguration("connext.architecture")
+                ) {
+                    this.refresh(false);
+                }
+            }),
+            // The installation settings of the workspace are ignored until
+            // it is trusted
+            vscode.workspace.onDidGrantWorkspaceTrust(() => this.refresh(false)),
+        ];
+
+        this.watch();
+    }
+
+    /**
+     * The current list of installations.
+     */
+    get currentInstallations(): Installation[] {
+        return this.installations;
+    }
+
+    /**
+     * Searches the installations again and tells the user which ones
+     * appeared or disappeared.
+     *
+     * @param notify - Whether to show a message when the list changes.
+     * @returns The new list of installations.
+     */
+    refresh(notify: boolean): Installation[] {
+        this.clearRefreshTimer();
+
+        const previous = this.installations;
+        this.installations = getConnextInstallations();
+
+        // The installations to watch may have changed
+        this.watch();
+
+        const { added, removed } = compareInstallations(
+            previous,
+            this.installations
+        );
+
+        if (notify) {
+            if (added.length > 0) {
+                showInformationMessage(
+                    `Found new Connext installations: ${added.join(", ")}.`
+                );
+            }
+
+            if (removed.length > 0) {
+                showInformationMessage(
+                    `Connext installations no longer available: ${removed.join(", ")}.`
+                );
+            }
+        }
+
+        this.installationsEmitter.fire(this.installations);
+
+        return this.installations;
+    }
+
+    dispose() {
+        this.clearRefreshTimer();
+        this.disposeWatchers();
+        this.disposables.forEach((disposable) => disposable.dispose());
+    }
+
+    /**
+     * Creates the file system watchers for the current locations and
+     * installations. The patterns are not recursive, so watching large
+     * directories such as the home directory is cheap.
+     */
+    private watch() {
+        this.disposeWatchers();
+
+        // Only the "rti_connext_dds-*" entries of the locations matter
+        for (const location of getInstallationLocations()) {
+            this.addWatcher(
+                new vscode.RelativePattern(vscode.Uri.file(location), "*"),
+                (uri) => path.basename(uri.fsPath).startsWith("rti_connext_dds-")
+            );
+        }
+
+        for (const installation of this.installations) {
+            this.addWatcher(
+                new vscode.RelativePattern(
+                    vscode.Uri.file(installation.directory),
+                    "lib/*"
+                ),
+                () => true
+            );
+        }
+    }
+
+    /**
+     * Refreshes the installations when a file or directory matching a
+     * pattern is created or deleted.
+     *
+     * @param pattern - The pattern to watch.
+     * @param filter - Whether a change to an entry is relevant.
+     */
+    private addWatcher(
+        pattern: vscode.RelativePattern,
+        filter: (uri: vscode.Uri) => boolean
+    ) {
+        const watcher = vscode.workspace.createFileSystemWatcher(
+            pattern,
+            false,
+            true,
+            false
+        );
+
+        const onChange = (uri: vscode.Uri) => {
+            if (filter(uri)) {
+                this.scheduleRefresh();
+            }
+        };
+
+        watcher.onDidCreate(onChange);
+        watcher.onDidDelete(onChange);
+
+        this.watchers.push(watcher);
+    }
+
+    private scheduleRefresh() {
+        this.clearRefreshTimer();
+        this.refreshTimer = setTimeout(() => this.refresh(true), REFRESH_DELAY);
+    }
+
+    private clearRefreshTimer() {
+        if (this.refreshTimer !== undefined) {
+            clearTimeout(this.refreshTimer);
+            this.refreshTimer = undefined;
+        }
+    }
+
+    private disposeWatchers() {
+        this.watchers.forEach((watcher) => watcher.dispose());
+        this.watchers = [];
+    }
+}
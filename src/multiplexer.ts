@@ -0,0 +1,283 @@
+/*******************************************************************************
+ * (c) Copyright, Real-Time Innovations, 2024.
+ * All rights reserved.
+ * No duplications, whole or partial, manual or electronic, may be made
+ * without express written permission.  Any such copies, or
+ * revisions thereof, must display this notice unaltered.
+ * This code contains trade secrets of Real-Time Innovations, Inc.
+ */
+
+import * as vscode from "vscode";
+import { Socket } from "socket.io-client";
+
+import { showErrorMessage } from "./utils";
+
+/**
+ * The ways in which a request sent through the multiplexer can finish.
+ */
+export enum RequestOutcome {
+    Completed,
+    Error,
+    Cancelled,
+    TimedOut,
+    Disconnected,
+}
+
+/**
+ * The result of a request sent through the multiplexer.
+ */
+export interface RequestResult {
+    outcome: RequestOutcome;
+
+    /**
+     * The error description sent by the server when the outcome is
+     * `RequestOutcome.Error`.
+     */
+    errorDescription?: string;
+}
+
+/**
+ * Sends chat requests to the Intelligence Platform and streams the tokens
+ * of the answers.
+ */
+export interface RequestSender {
+    /**
+     * Sends a request to the server and streams the response tokens to the
+     * provided handler.
+     *
+     * @param payload - The message to send. It must contain the request `id`.
+     * @param onToken - Called for every token received for this request.
+     * @param timeout - The maximum time to wait for the full response, in milliseconds.
+     * @param token - A cancellation token. When cancelled, the server is asked to stop generating the response.
+     * @returns A promise that resolves when the request finishes, whatever the outcome.
+     */
+    send(
+        payload: { id: string; [key: string]: any },
+        onToken: (token: string) => void,
+        timeout: number,
+        token?: vscode.CancellationToken
+    ): Promise<RequestResult>;
+}
+
+/**
+ * The state kept for a request that is waiting for its response.
+ */
+interface PendingRequest {
+    onToken: (token: string) => void;
+    resolve: (result: RequestResult) => void;
+    timer: NodeJS.Timeout;
+    cancellation: vscode.Disposable | undefined;
+}
+
+/**
+ * Routes the "response" messages received on a shared Socket.IO connection
+ * to the request they belong to.
+ *
+ * Every message sent by the server carries the `id` of the request that
+ * generated it. The multiplexer installs a single "response" listener on the
+ * socket and dispatches each token to the handler registered for that id,
+ * which allows several requests (for example, from different chat panels) to
+ * be in flight at the same time. Each request is timed out independently.
+ */
+export class RequestMultiplexer implements RequestSender {
+    private socket: Socket;
+    private pending: Map<string, PendingRequest>;
+
+    /**
+     * Ids of cancelled or timed out requests. Late messages carrying one of
+     * these ids are dropped until the server sends the final one.
+     */
+    private cancelled: Set<string>;
+
+    private responseListener: (data: string) => void;
+    private disconnectListener: () => void;
+
+    /**
+     * Creates a multiplexer for the given socket.
+     * @param socket - The Socket.IO connection shared by all requests.
+     */
+    constructor(socket: Socket) {
+        this.socket = socket;
+        this.pending = new Map<string, PendingRequest>();
+        this.cancelled = new Set<string>();
+
+        this.responseListener = (data: string) => this.onResponse(data);
+        this.disconnectListener = () => this.onDisconnect();
+
+        this.socket.on("response", this.responseListener);
+        this.socket.on("disconnect", this.disconnectListener);
+    }
+
+    /**
+     * Sends a request through the shared socket. See `RequestSender.send()`.
+     */
+    send(
+        payload: { id: string; [key: string]: any },
+        onToken: (token: string) => void,
+        timeout: number,
+        token?: vscode.CancellationToken
+    ): Promise<RequestResult> {
+        const requestId = payload.id;
+
+        return new Promise<RequestResult>((resolve) => {
+            const timer = setTimeout(() => {
+                this.abort(requestId, RequestOutcome.TimedOut);
+            }, timeout);
+
+            this.pending.set(requestId, {
+                onToken: onToken,
+                resolve: resolve,
+                timer: timer,
+                cancellation: token?.onCancellationRequested(() => {
+                    this.abort(requestId, RequestOutcome.Cancelled);
+                }),
+            });
+
+            if (token?.isCancellationRequested) {
+                this.finish(requestId, { outcome: RequestOutcome.Cancelled });
+                return;
+            }
+
+            this.socket.emit("message", JSON.stringify(payload));
+        });
+    }
+
+    /**
+     * Cancels a pending request. The socket is kept open so that the next
+     * question does not need to reconnect and re-authenticate.
+     *
+     * @param requestId - The id of the request to cancel.
+     */
+    cancel(requestId: string) {
+        this.abort(requestId, RequestOutcome.Cancelled);
+    }
+
+    /**
+     * The number of requests waiting for their response.
+     */
+    get pendingCount(): number {
+        return this.pending.size;
+    }
+
+    /**
+     * Detaches the multiplexer from the socket and finishes all pending
+     * requests with `RequestOutcome.Disconnected`.
+     */
+    dispose() {
+        this.socket.off("response", this.responseListener);
+        this.socket.off("disconnect", this.disconnectListener);
+        this.onDisconnect();
+    }
+
+    /**
+     * Asks the server to stop generating the response for a request and
+     * finishes it with the given outcome.
+     */
+    private abort(requestId: string, outcome: RequestOutcome) {
+        if (!this.pending.has(requestId)) {
+            return;
+        }
+
+        this.cancelled.add(requestId);
+        this.socket.emit("cancel", JSON.stringify({ id: requestId }));
+        this.finish(requestId, { outcome: outcome });
+    }
+
+    /**
+     * Removes a request from the pending list and resolves its promise.
+     */
+    private finish(requestId: string, result: RequestResult) {
+        const request = this.pending.get(requestId);
+
+        if (request === undefined) {
+            return;
+        }
+
+        this.pending.delete(requestId);
+        clearTimeout(request.timer);
+        request.cancellation?.dispose();
+        request.resolve(result);
+    }
+
+    /**
+     * Dispatches a "response" message to the request it belongs to.
+     */
+    private onResponse(data: string) {
+        // Convert the data (received as a JSON string) to an object
+        let parsedData;
+
+        try {
+            parsedData = JSON.parse(data);
+        } catch (error) {
+            showErrorMessage(`Failed to parse response from server: ${error}`);
+            return;
+        }
+
+        let requestId: string | undefined = parsedData.id;
+        const isLast = parsedData.last_token === true || parsedData.error;
+
+        if (requestId === undefined) {
+            if (this.cancelled.size > 0) {
+                // Servers that do not echo the id finish the cancelled
+                // request first, so the message is a late token of the
+                // oldest cancelled request and must not reach the next one
+                if (isLast) {
+                    const [oldest] = this.cancelled;
+                    this.cancelled.delete(oldest);
+                }
+                return;
+            }
+
+            if (this.pending.size !== 1) {
+                return;
+            }
+
+            // Servers that do not echo the id can only serve one request
+            // at a time, so the message belongs to the only pending request
+            requestId = this.pending.keys().next().value;
+        }
+
+        if (requestId === undefined) {
+            return;
+        }
+
+        // Drop late tokens from a request that was already cancelled
+        if (this.cancelled.has(requestId)) {
+            if (isLast) {
+                this.cancelled.delete(requestId);
+            }
+            return;
+        }
+
+        const request = this.pending.get(requestId);
+
+        if (request === undefined) {
+            return;
+        }
+
+        // Check if there's an error in the response
+        if (parsedData.error) {
+            this.finish(requestId, {
+                outcome: RequestOutcome.Error,
+                errorDescription: parsedData.error_description,
+            });
+        } else if (parsedData.last_token === true) {
+            this.finish(requestId, { outcome: RequestOutcome.Completed });
+        } else {
+            request.onToken(parsedData.token);
+        }
+    }
+
+    /**
+     * Finishes all pending requests after the connection is lost. The server
+     * forgets the requests from a closed connection, so the cancelled ids are
+     * discarded as well.
+     */
+    private onDisconnect() {
+        for (const requestId of Array.from(this.pending.keys())) {
+            this.finish(requestId, { outcome: RequestOutcome.Disconnected });
+        }
+
+        this.cancelled.clear();
+    }
+}
@@ -0,0 +1,248 @@
+/*******************************************************************************
+ * (c) Copyright, Real-Time Innovations, 2024.
+ * All rights reserved.
+ * No duplications, whole or partial, manual or electronic, may be made
+ * without express written permission.  Any such copies, or
+ * revisions thereof, must display this notice unaltered.
+ * This code contains trade secrets of Real-Time Innovations, Inc.
+ */
+
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as http from "http";
+import * as https from "https";
+import * as tls from "tls";
+import { HttpsProxyAgent } from "https-proxy-agent";
+
+import { showErrorMessage } from "./utils";
+
+/**
+ * The outbound network configuration, built from the VS Code `http.*`
+ * settings, the proxy environment variables and the
+ * `connext.caCertificates` setting.
+ */
+interface NetworkConfiguration {
+    proxy: string | undefined;
+    proxyAuthorization: string | undefined;
+    noProxy: string[];
+    strictSSL: boolean;
+    ca: string[] | undefined;
+}
+
+/**
+ * The agents created for the current configuration, keyed by proxy and
+ * protocol. The cache is cleared when the configuration changes.
+ */
+const AGENTS = new Map<string, http.Agent>();
+
+/**
+ * The configuration used to create the cached agents.
+ */
+let CONFIGURATION: NetworkConfiguration | undefined = undefined;
+
+/**
+ * Reads the outbound network configuration.
+ *
+ * The `http.proxy` setting takes precedence over the `HTTPS_PROXY` and
+ * `HTTP_PROXY` environment variables. Hosts in `http.noProxy` or in the
+ * `NO_PROXY` environment variable are reached directly.
+ */
+function readConfiguration(): NetworkConfiguration {
+    const httpConfig = vscode.workspace.getConfiguration("http");
+    const connextConfig = vscode.workspace.getConfiguration("connext");
+
+    let proxy = httpConfig.get<string>("proxy");
+
+    if (!proxy) {
+        proxy =
+            process.env.HTTPS_PROXY ||
+            process.env.https_proxy ||
+            process.env.HTTP_PROXY ||
+            process.env.http_proxy;
+    }
+
+    let noProxy = httpConfig.get<string[]>("noProxy", []);
+    const noProxyEnv = process.env.NO_PROXY || process.env.no_proxy;
+
+    if (noProxyEnv) {
+        noProxy = noProxy.concat(noProxyEnv.split(","));
+    }
+
+    let ca: string[] | undefined = undefined;
+    const caFiles = connextConfig.get<string[]>("caCertificates", []);
+
+    if (caFiles.length > 0) {
+        // Keep trusting the public CAs in addition to the custom ones
+        ca = [...tls.rootCertificates];
+
+        for (const caFile of caFiles) {
+            try {
+                ca.push(fs.readFileSync(caFile, "utf8"));
+            } catch (error) {
+                showErrorMessage(
+                    `Error reading CA certificate file ${caFile}: ${error}`
+                );
+            }
+        }
+    }
+
+    return {
+        proxy: proxy || undefined,
+        proxyAuthorization:
+            httpConfig.get<string | null>("proxyAuthorization") || undefined,
+        noProxy: noProxy
+            .map((host) => host.trim().toLowerCase())
+            .filter((host) => host !== ""),
+        strictSSL: httpConfig.get<boolean>("proxyStrictSSL", true),
+        ca: ca,
+    };
+}
+
+/**
+ * Returns the cached network configuration, reading it the first time.
+ */
+function getConfiguration(): NetworkConfiguration {
+    if (CONFIGURATION === undefined) {
+        CONFIGURATION = readConfiguration();
+        AGENTS.clear();
+    }
+
+    return CONFIGURATION;
+}
+
+/**
+ * Checks whether a host must be reached without the proxy.
+ *
+ * @param hostname - The host name of the target URL.
+ * @param noProxy - The host names or domain suffixes to reach directly.
+ */
+function bypassProxy(hostname: string, noProxy: string[]): boolean {
+    hostname = hostname.toLowerCase();
+
+    return noProxy.some((entry) => {
+        if (entry === "*") {
+            return true;
+        }
+
+        const suffix = entry.startsWith(".") ? entry : `.${entry}`;
+
+        return hostname === entry || hostname.endsWith(suffix);
+    });
+}
+
+/**
+ * Returns the agent to use for an outbound connection to the given URL.
+ *
+ * The agent goes through the configured proxy, trusts the configured CA
+ * certificates and verifies the server certificates unless
+ * `http.proxyStrictSSL` is disabled.
+ *
+ * @param url - The target URL. `ws://` and `wss://` URLs are supported.
+ * @returns The agent, or `undefined` to use the default Node.js agent.
+ */
+export function getAgent(url: string): http.Agent | undefined {
+    const config = getConfiguration();
+    const target = new URL(url);
+    const secure =
+        target.protocol === "https:" || target.protocol === "wss:";
+
+    let proxy = config.proxy;
+
+    if (proxy !== undefined && bypassProxy(target.hostname, config.noProxy)) {
+        proxy = undefined;
+    }
+
+    if (proxy === undefined && config.ca === undefined && config.strictSSL) {
+        return undefined;
+    }
+
+    const key = `${proxy ?? ""}|${secure}`;
+    let agent = AGENTS.get(key);
+
+    if (agent !== undefined) {
+        return agent;
+    }
+
+    const tlsOptions = {
+        ca: config.ca,
+        rejectUnauthorized: config.strictSSL,
+    };
+
+    if (proxy !== undefined) {
+        agent = new HttpsProxyAgent(proxy, {
+            ...tlsOptions,
+            headers:
+                config.proxyAuthorization !== undefined
+                    ? { "Proxy-Authorization": config.proxyAuthorization }
+                    : undefined,
+        });
+    } else if (secure) {
+        agent = new https.Agent(tlsOptions);
+    } else {
+        return undefined;
+    }
+
+    AGENTS.set(key, agent);
+
+    return agent;
+}
+
+/**
+ * Returns the options that make an axios request use the outbound network
+ * configuration. The proxy support built into axios is disabled because the
+ * agent already goes through the proxy.
+ *
+ * @param url - The target URL.
+ */
+export function getAxiosNetworkOptions(url: string): {
+    httpAgent?: http.Agent;
+    httpsAgent?: http.Agent;
+    proxy: false;
+} {
+    const agent = getAgent(url);
+
+    return {
+        httpAgent: agent,
+        httpsAgent: agent,
+        proxy: false,
+    };
+}
+
+/**
+ * Returns the options that make a Socket.IO connection use the outbound
+ * network configuration.
+ *
+ * @param url - The URL of the Socket.IO server.
+ */
+export function getSocketNetworkOptions(url: string): {
+    agent?: any;
+    ca?: string[];
+    rejectUnauthorized: boolean;
+} {
+    const config = getConfiguration();
+
+    return {
+        agent: getAgent(url),
+        ca: config.ca,
+        rejectUnauthorized: config.strictSSL,
+    };
+}
+
+/**
+ * Discards the cached configuration when a setting that affects outbound
+ * connections changes.
+ *
+ * @param context - The extension context used to register the listener.
+ */
+export function watchNetworkConfiguration(context: vscode.ExtensionContext) {
+    context.subscriptions.push(
+        vscode.workspace.onDidChangeConfiguration((event) => {
+            if (
+                event.affectsConfiguration("http") ||
+                event.affectsConfiguration("connext.caCertificates")
+            ) {
+                CONFIGURATION = undefined;
+            }
+        })
+    );
+}
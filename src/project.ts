@@ -16,17 +16,20 @@ import {
     Installation,
     Architecture,
     getDefaultInstallation,
+    getToolEnvironment,
 } from "./installation";
+import {
+    findPublisherSubscriberAndTypeFiles,
+    getCMakeTemplateData,
+    isUnnecessaryExampleFile,
+} from "./core/project";
 
 import {
     CONNEXT_PRODUCT,
     askQuestionWithJsonResponse,
     askQuestionToConnext,
     askQuestionToConnextWithJsonResponse,
-    runCommandSync,
-    isWindows,
-    isLinux,
-    isMac,
+    runProcess,
     readDirectoryRecursive,
     getPlatformStr,
     getHighestDotnetFramework,
@@ -60,50 +63,13 @@ async function generateCMakeFiles(
     extensionPath: string,
     configurationVariables: any
 ) {
-    let idl_file_name_no_ext = configurationVariables.idl_file_name.replace(
-        ".idl",
-        ""
-    );
-
-    let data = {
-        cmake_version: "3.11",
-        workspace_name: configurationVariables.workspace_name,
-        connext_version: configurationVariables.connext_version,
-        connext_path: configurationVariables.connext_path,
-        language: configurationVariables.language,
-        idl_file_name: idl_file_name_no_ext,
-        connext_libs: "RTIConnextDDS::c_api",
-        generator: "Unix Makefiles",
-        mi_mode: "lldb",
-        platform: getPlatformStr(),
-        architecture: configurationVariables.architecture,
-    };
-
-    if (configurationVariables.language == "C") {
-        data.connext_libs = "RTIConnextDDS::c_api";
-    } else if (configurationVariables.language == "C++98") {
-        data.connext_libs = "RTIConnextDDS::cpp_api";
-    } else if (configurationVariables.language == "C++11") {
-        data.connext_libs = "RTIConnextDDS::cpp2_api";
-    }
-
     let cmakeConfig = vscode.workspace.getConfiguration("cmake");
 
-    if (cmakeConfig.get("generator") != undefined) {
-        data.generator = cmakeConfig.get("generator") as string;
-    } else if (isWindows()) {
-        data.generator = "NMake Makefiles";
-    } else {
-        data.generator = "Unix Makefiles";
-    }
-
-    if (isMac()) {
-        data.mi_mode = "lldb";
-    } else if (isLinux()) {
-        data.mi_mode = "gdb";
-    } else if (isWindows()) {
-        data.mi_mode = "cppvsdbg";
-    }
+    let data = getCMakeTemplateData(
+        configurationVariables,
+        process.platform,
+        cmakeConfig.get<string | null>("generator") ?? undefined
+    );
 
     // Configure Nunjucks to load templates from the specified directory
     nunjucks.configure(path.resolve(extensionPath, "resources/templates"), {
@@ -296,66 +262,16 @@ export async function getPublisherSubscriberAndTypeFile(
     workspaceUri: vscode.Uri,
     language: string
 ): Promise<string[]> {
-    let languageInfo = getLanguageInfo(language);
-
-    if (languageInfo == undefined) {
-        throw new Error("Unexpected language.");
-    }
-
     const files = await readDirectoryRecursive(workspaceUri);
 
     if (files == undefined) {
         throw new Error("Error reading temporary directory.");
     }
 
-    let publisherFile = undefined;
-    let subscriberFile = undefined;
-    let typeFileName = undefined;
-
-    // Extract the string before _publisher
-    if (
-        language == "Python" ||
-        language == "C" ||
-        language == "C++98" ||
-        language == "C++11"
-    ) {
-        publisherFile = files.find(([fileName]) => {
-            return fileName.endsWith(`_publisher.${languageInfo.extension}`);
-        });
-        subscriberFile = files.find(([fileName]) => {
-            return fileName.endsWith(`_subscriber.${languageInfo.extension}`);
-        });
-    } else {
-        publisherFile = files.find(([fileName]) => {
-            return fileName.endsWith(`Publisher.${languageInfo.extension}`);
-        });
-        subscriberFile = files.find(([fileName]) => {
-            return fileName.endsWith(`Subscriber.${languageInfo.extension}`);
-        });
-    }
-
-    if (publisherFile == undefined || subscriberFile == undefined) {
-        throw new Error(`Error finding ${language} files.`);
-    }
-
-    if (
-        language == "Python" ||
-        language == "C" ||
-        language == "C++98" ||
-        language == "C++11"
-    ) {
-        typeFileName = publisherFile[0].replace(
-            `_publisher.${languageInfo.extension}`,
-            `.${languageInfo.headerExtension}`
-        );
-    } else {
-        typeFileName = publisherFile[0].replace(
-            `Publisher.${languageInfo.extension}`,
-            `.${languageInfo.headerExtension}`
-        );
-    }
-
-    return [publisherFile[0], subscriberFile[0], typeFileName];
+    return findPublisherSubscriberAndTypeFiles(
+        files.map(([fileName]) => fileName),
+        language
+    );
 }
 
 /**
@@ -621,14 +537,22 @@ export async function createExample(
 
         jsonProject["example_architecture"] = exampleArch;
 
-        // if defaultInstallation[1].toolEnvCmd contains zsh
-        // then replace it with bash
-        let command = `${defaultInstallation[1].toolEnvCmd} && rtiddsgen \
-                    -language ${jsonProject.language} \
-                    -ppDisable \
-                    -d ${tempDirWithWorkspace.fsPath} \
-                    -example ${exampleArch} ${idlFile.fsPath}`;
-        runCommandSync(command);
+        const env = await getToolEnvironment(defaultInstallation[1]);
+
+        await runProcess(
+            "rtiddsgen",
+            [
+                "-language",
+                jsonProject.language,
+                "-ppDisable",
+                "-d",
+                tempDirWithWorkspace.fsPath,
+                "-example",
+                exampleArch,
+                idlFile.fsPath,
+            ],
+            env
+        );
 
         let pubSubFiles = await getPublisherSubscriberAndTypeFile(
             tempDirWithWorkspace,
@@ -711,18 +635,7 @@ export async function createExample(
 
         // Delete files starting with makefile or README
         const filteredFiles = files.filter(([fileName]) => {
-            const lowerFileName = fileName.toLowerCase();
-            if (
-                lowerFileName.startsWith("makefile") ||
-                lowerFileName.startsWith("readme") ||
-                lowerFileName.endsWith(".launch") ||
-                lowerFileName.endsWith("build.xml") ||
-                lowerFileName.endsWith(".classpath") ||
-                lowerFileName.endsWith(".project") ||
-                lowerFileName.endsWith(".vcxproj") ||
-                lowerFileName.endsWith(".vcxproj.filters") ||
-                lowerFileName.endsWith(".sln")
-            ) {
+            if (isUnnecessaryExampleFile(fileName)) {
                 try {
                     const fileUri = vscode.Uri.joinPath(
                         tempDirWithWorkspace,
@@ -9,23 +9,19 @@
 
 import * as vscode from "vscode";
 import * as fs from "fs";
-import { Installation, Architecture, getDefaultInstallation } from "./installation";
+import { Installation, getDefaultInstallation } from "./installation";
 import {readBinaryFileAdBase64Sync, isSupportedImageFile, isBinaryFile} from "./utils";
-
-let START_WORKSPACE_INFO = `[Start Workspace Info]\n`;
-let END_WORKSPACE_INFO = `[End Workspace Info]\n`;
-
-export enum PromptReferenceKind {
-    File,
-    Selection,
-    Unknown,
-}
-
-export enum PromptReferenceAttributes {
-    OpenFile,
-    UploadedFile,
-    SelectedText,
-}
+import {
+    buildPrompt,
+    getSystemXmlModelPromptText,
+    HistoryTurn,
+    HistoryTurnKind,
+    PromptReferenceAttributes,
+    PromptReferenceKind,
+    WorkspaceReference,
+} from "./core/prompt";
+
+export { PromptReferenceAttributes, PromptReferenceKind } from "./core/prompt";
 
 /**
  * Represents a reference to a document within a prompt, including its URI and content.
@@ -236,77 +232,64 @@ function chatPromptReferenceToPromptReference(
     }
 }
 
-function generatePromptWithWorkspaceInfo(
-    prompt: string,
-    installations: Installation[] | undefined,
+/**
+ * Reads the references of a request, and all open files if requested, to
+ * describe them in a prompt.
+ *
+ * @param references - The references of the chat request.
+ * @param includeAllOpenFiles - Whether to include all open files.
+ * @returns The text files and selections to include in the prompt.
+ */
+function getWorkspaceReferences(
     references: readonly vscode.ChatPromptReference[] | undefined,
     includeAllOpenFiles: boolean = false
-): string {
-
-    let defaultInstallation: [Installation, Architecture] | undefined =
-        undefined;
-
-    if (installations != undefined) {
-        defaultInstallation = getDefaultInstallation(installations);
-    }
-
+): WorkspaceReference[] {
     let promptReferences: PromptReference[] = [];
 
     if ((references != undefined && references.length > 0) || includeAllOpenFiles) {
         promptReferences = chatPromptReferenceToPromptReference(references, true, includeAllOpenFiles);
     }
 
-    // Return the original prompt if no references or default installations are provided
-    if (promptReferences.length === 0 && defaultInstallation == undefined) {
-        return prompt + "\n";
-    }
-
-    let promptWithInfo = prompt + "\n";
-
-    // Create a structured template for the content references
-    promptWithInfo += START_WORKSPACE_INFO;
-    promptWithInfo += `Use the following workspace information to respond to the previous request more specifically.\n`
-
-    if (promptReferences.length > 0) {
-        promptWithInfo += `Consider the content references provided in the JSON format below to respond to the previous request:\n\n`;
-
-        promptWithInfo += JSON.stringify(
-            promptReferences.map((ref) => ({
-                kind: PromptReferenceKind[ref.kind],
-                attributes: ref.attributes.map((attr) => PromptReferenceAttributes[attr]),
-                uri: ref.uri?.fsPath,
-                content: ref.content,
-            })),
-            null,
-            2
-        );
+    return promptReferences.map((ref) => ({
+        kind: ref.kind,
+        attributes: ref.attributes,
+        path: ref.uri?.fsPath,
+        content: ref.content,
+    }));
+}
 
-        promptWithInfo += "\n";
-    }
+/**
+ * Converts the history of a chat to the turns used to build a prompt.
+ *
+ * @param context - The chat context containing the history of previous messages.
+ * @returns The previous questions and the Markdown of the previous answers.
+ */
+function getHistoryTurns(context: vscode.ChatContext): HistoryTurn[] {
+    let turns: HistoryTurn[] = [];
+
+    for (const turn of context.history) {
+        if (turn instanceof vscode.ChatRequestTurn) {
+            turns.push({
+                kind: HistoryTurnKind.Request,
+                prompt: turn.prompt,
+                command: turn.command,
+            });
+        } else if (turn instanceof vscode.ChatResponseTurn) {
+            let markdown: string[] = [];
 
-    // Create a structured template for the default installation information
-    if (defaultInstallation != undefined) {
-        promptWithInfo += `Consider the default installation info provided in the JSON format below to respond to the previous request:\n\n`;
-
-        promptWithInfo += JSON.stringify(
-            {
-                directory: defaultInstallation[0].directory,
-                architecture: defaultInstallation[1].name,
-            },
-            null,
-            2
-        );
+            for (const part of turn.response) {
+                if (part.value instanceof vscode.MarkdownString) {
+                    markdown.push(part.value.value);
+                }
+            }
 
-        promptWithInfo += "\n";
+            turns.push({ kind: HistoryTurnKind.Response, markdown: markdown });
+        }
     }
 
-    promptWithInfo += `If there are images in the request content, use them to respond as well.\n`;
-    promptWithInfo += END_WORKSPACE_INFO;
-
-    return promptWithInfo;
+    return turns;
 }
 
-
 /**
  * Retrieves the file paths of all currently open text files in the editor.
  *
@@ -366,6 +349,8 @@ function getAllOpenFiles(): string[] {
  * @param context - The chat context containing the history of previous messages.
  * @param rest_api - Whether to include the REST API tags in the prompt.
  * @param includeAllOpenFiles - Whether to include all open files in the prompt.
+ * @param includeHistory - Whether to include the chat history in the prompt.
+ * It is not needed when the server keeps the conversation in a session.
  * @returns The chat history with the prompt and response.
  */
 export function getPrompt(
@@ -375,200 +360,41 @@ export function getPrompt(
     response: string | null,
     context: vscode.ChatContext,
     rest_api: boolean = true,
-    includeAllOpenFiles: boolean = false
+    includeAllOpenFiles: boolean = false,
+    includeHistory: boolean = true
 ): string {
-    let previousMessages = context.history;
-    const editor = vscode.window.activeTextEditor;
-
-    const BeginHumanRestMessage = "[[BEGIN Human message]]\n";
-    const EndHumanRestMessage = "[[END Human message]]\n";
-    const BeginAiRestMessage = "[[BEGIN AI message]]\n";
-    const EndAiRestMessage = "[[END AI message]]\n";
-    const HumanMessage = "Human message:";
-    const AiMessage = "AI message:";
+    let defaultInstallation = undefined;
 
-    let limit = globalThis.globalState.MAX_HISTORY_LENGTH;
-    let promptWithInfo = null;
-
-    if (prompt != null) {
-        promptWithInfo = generatePromptWithWorkspaceInfo(prompt, installations, references, includeAllOpenFiles);
-        limit = globalThis.globalState.MAX_HISTORY_LENGTH - promptWithInfo.length;
-
-        if (limit < 0) {
-            limit = 0;
-        }
+    if (installations != undefined) {
+        defaultInstallation = getDefaultInstallation(installations);
     }
 
-    let previousMessagesList = [];
-
-    if (limit > 0) {
-        for (
-            let i = previousMessages.length - 1, userAsk = false, totalLength = 0;
-            i >= 0;
-            i--
-        ) {
-            if (previousMessages[i] instanceof vscode.ChatRequestTurn) {
-                const turn = previousMessages[i] as vscode.ChatRequestTurn;
-
-                let promptValue: string | null = turn.prompt;
-
-                if (
-                    turn.command != undefined &&
-                    turn.command == "generateSystemXmlModel"
-                ) {
-                    // The prompt does not have a value and we have to generate
-                    // a prompt for the history based on what it was used
-                    // in the command. We ignore the references in this case.
-                    // because we may not have the references available 
-                    // anymore
-                    promptValue = getGenerateSystemXmlModelPrompt(
-                        undefined,
-                        false,
-                        true
-                    );
-
-                    if (promptValue == null) {
-                        promptValue = turn.prompt;
-                    }
-                }
-
-                let request = "";
-                if (rest_api) {
-                    request += BeginHumanRestMessage;
-                    request += `${promptValue}\n`;
-                    request += EndHumanRestMessage;
-                } else {
-                    request += `${HumanMessage} ${promptValue}\n`;
-                }
-
-                previousMessagesList.unshift(request);
-                totalLength += turn.prompt.length;
-                userAsk = true;
-            } else if (previousMessages[i] instanceof vscode.ChatResponseTurn) {
-                const turn = previousMessages[i] as vscode.ChatResponseTurn;
-                let response = "";
-
-                if (rest_api) {
-                    response += BeginAiRestMessage;
-                } else {
-                    response += `${AiMessage} `;
-                }
-
-                for (let i = 0; i < turn.response.length; i++) {
-                    const responsePart = turn.response[i].value;
-
-                    if (responsePart instanceof vscode.MarkdownString) {
-                        response += `${responsePart.value}\n`;
-                    }
-                }
-
-                if (
-                    response.includes(
-                        globalThis.globalState.VALIDATE_CODE_HELP_STRING
-                    )
-                ) {
-                    response = response.replace(
-                        globalThis.globalState.VALIDATE_CODE_HELP_STRING,
-                        ""
-                    );
-                }
-
-                if (
-                    response.includes(globalThis.globalState.VALIDATE_CODE_WARNING)
-                ) {
-                    response = response.replace(
-                        globalThis.globalState.VALIDATE_CODE_WARNING,
-                        ""
-                    );
-                }
-
-                if (response.trim() === BeginAiRestMessage.trim()) {
-                    response += "No response provided.\n";
-                }
-
-                if (rest_api) {
-                    response += EndAiRestMessage;
-                }
-
-
-                previousMessagesList.unshift(response);
-                totalLength += response.length;
-                userAsk = false;
-            }
-
-            if (totalLength > limit && userAsk) {
-                // Pop the last user ask
-                previousMessagesList.shift();
-
-                if (previousMessagesList.length > 0) {
-                    // Pop the last bot response
-                    previousMessagesList.shift();
+    return buildPrompt(prompt, {
+        history: includeHistory ? getHistoryTurns(context) : [],
+        references:
+            prompt !== null
+                ? getWorkspaceReferences(references, includeAllOpenFiles)
+                : [],
+        defaultInstallation:
+            defaultInstallation !== undefined
+                ? {
+                    directory: defaultInstallation[0].directory,
+                    architecture: defaultInstallation[1].name,
+                    version: defaultInstallation[0].version,
+                    installedPackages: defaultInstallation[0]
+                        .packagesFor(defaultInstallation[1].name)
+                        .map((p) => `${p.name} ${p.version}`),
                 }
-
-                break;
-            }
-        }
-    }
-
-    let promptWithContext = "";
-
-    for (let i = 0; i < previousMessagesList.length; i++) {
-        promptWithContext += previousMessagesList[i];
-    }
-
-    promptWithContext = promptWithContext.replace(
-        new RegExp(`${START_WORKSPACE_INFO}.*?${END_WORKSPACE_INFO}`),
-        ""
-    );
-
-    if (prompt === null) {
-        return promptWithContext;
-    }
-
-    if (rest_api) {
-        promptWithContext += BeginHumanRestMessage;
-    } else {
-        promptWithContext += `${HumanMessage} `;
-    }
-
-    promptWithContext += promptWithInfo
-
-    if (rest_api) {
-        promptWithContext += EndHumanRestMessage;
-    }
-
-    if (rest_api) {
-        promptWithContext += BeginHumanRestMessage;
-    } else {
-        promptWithContext += `${HumanMessage} `;
-    }
-
-    promptWithContext += "If the request requires XML or Python code generation, always validate the code for correctness and functionality. Include the validated code as part of your response.";
-
-    if (rest_api) {
-        promptWithContext += EndHumanRestMessage;
-    }
-
-    if (response !== null) {
-        if (rest_api) {
-            promptWithContext += BeginAiRestMessage;
-        } else {
-            promptWithContext += `${AiMessage} `;
-        }
-
-        promptWithContext += `${response}\n`;
-
-        if (rest_api) {
-            promptWithContext += EndAiRestMessage;
-        }
-    }
-
-    // Save prompt string into a file
-    // if (response === null) {
-    //     fs.writeFileSync("/Users/fernando/RTI/AI/demos/demo_plc/prompt.txt", promptWithContext);
-    // }
-
-    return promptWithContext;
+                : undefined,
+        response: response,
+        restApi: rest_api,
+        maxHistoryLength: globalThis.globalState.MAX_HISTORY_LENGTH,
+        ignoredResponseText: [
+            globalThis.globalState.VALIDATE_CODE_HELP_STRING,
+            globalThis.globalState.VALIDATE_CODE_WARNING,
+            globalThis.globalState.TRUNCATED_ANSWER_WARNING,
+        ],
+    });
 }
 
 /**
@@ -700,33 +526,5 @@ export function getGenerateSystemXmlModelPrompt(
         source_str = getSystemRepresentationStr(source);
     }
 
-    return `**Generate a complete and valid RTI DDS system configuration in 
-    OMG XML from the ${source_str} diagram in the open files.** 
-    
-    The response must strictly include the validated XML code. The configuration
-    for the input diagram should incorporate the following elements:
-
-    - Data types in XML format
-    - QoS settings
-    - Domain
-    - Topics
-    - Data writers
-    - Data readers
-    - Any additional elements required for a fully operational RTI DDS system
-
-    When defining types try to be as complete as possible. Do not use the
-    same type for different kinds of data. Data types that represent
-    the value of an object should always include an ID field. You can use
-    a tool to get help defining the types.
-
-    All components (e.g, sensor, control unit, etc) should be encapsulated in 
-    its own Participant.
-
-    Always preserve the flow of information described by arrows (or lines) in
-    the diagram. If a line goes into a component, it will require a DataReader.
-    If a line goes out of a component, it will require a DataWriter.
-
-    Always provide a baseline builtin QoS profile for each DataWriter and 
-    DataReader. Use a tool to access the builtin QoS profiles.
-    `;
+    return getSystemXmlModelPromptText(source_str);
 }
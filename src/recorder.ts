@@ -0,0 +1,214 @@
+/*******************************************************************************
+ * (c) Copyright, Real-Time Innovations, 2024.
+ * All rights reserved.
+ * No duplications, whole or partial, manual or electronic, may be made
+ * without express written permission.  Any such copies, or
+ * revisions thereof, must display this notice unaltered.
+ * This code contains trade secrets of Real-Time Innovations, Inc.
+ */
+
+import * as vscode from "vscode";
+import * as fs from "fs";
+
+import {
+    Fixture,
+    FixtureAnswer,
+    findAnswer,
+    getAnswerTokens,
+    readFixture,
+} from "./fixture";
+import { RequestOutcome, RequestResult, RequestSender } from "./multiplexer";
+import { showErrorMessage } from "./utils";
+
+/**
+ * The pending writes to the record file. Writes are chained so that
+ * concurrent requests do not overwrite each other's answers.
+ */
+let RECORD_WRITES: Promise<void> = Promise.resolve();
+
+/**
+ * Returns the path of the record file from the `connext.recordFile` setting.
+ *
+ * @returns The path, or `undefined` if recording is disabled.
+ */
+export function getRecordFile(): string | undefined {
+    const config = vscode.workspace.getConfiguration("connext");
+
+    return config.get<string>("recordFile") || undefined;
+}
+
+/**
+ * Returns the fixture from the `connext.replayFile` setting. The file is
+ * read on every call, so that it can be edited between requests.
+ *
+ * @returns The fixture, or `undefined` if replay is disabled or the file
+ * cannot be read.
+ */
+export function getReplayFixture(): Fixture | undefined {
+    const config = vscode.workspace.getConfiguration("connext");
+    const replayFile = config.get<string>("replayFile");
+
+    if (!replayFile) {
+        return undefined;
+    }
+
+    try {
+        return readFixture(replayFile);
+    } catch (error) {
+        showErrorMessage(`Error reading replay file ${replayFile}: ${error}`);
+        return undefined;
+    }
+}
+
+/**
+ * Appends a request and its answer to the record file, if recording is
+ * enabled.
+ *
+ * @param payload - The message sent to the Intelligence Platform.
+ * @param answer - The recorded answer: the streamed tokens or the full
+ * response, or the error description.
+ * @returns A promise that resolves when the answer has been written.
+ */
+export function recordAnswer(
+    payload: { [key: string]: any },
+    answer: Pick<FixtureAnswer, "tokens" | "response" | "error">
+): Promise<void> {
+    const recordFile = getRecordFile();
+
+    if (recordFile === undefined) {
+        return Promise.resolve();
+    }
+
+    const { question, ...rest } = payload;
+
+    RECORD_WRITES = RECORD_WRITES.then(async () => {
+        try {
+            const fixture = readFixture(recordFile);
+
+            fixture.answers.push({
+                question: question,
+                ...answer,
+                payload: rest,
+            });
+
+            await fs.promises.writeFile(
+                recordFile,
+                JSON.stringify(fixture, null, 4)
+            );
+        } catch (error) {
+            showErrorMessage(
+                `Error recording answer in ${recordFile}: ${error}`
+            );
+        }
+    });
+
+    return RECORD_WRITES;
+}
+
+/**
+ * Sends requests through another sender and records every request and the
+ * streamed tokens of its answer in the record file.
+ *
+ * Only finished requests (completed or failed with an error reported by the
+ * server) are recorded; cancelled, timed out and disconnected requests are
+ * not, because their answers are incomplete.
+ */
+export class RecordingSender implements RequestSender {
+    private sender: RequestSender;
+
+    /**
+     * Creates a recorder for the given sender.
+     * @param sender - The sender that delivers the requests.
+     */
+    constructor(sender: RequestSender) {
+        this.sender = sender;
+    }
+
+    /**
+     * Sends a request and records it. See `RequestSender.send()`.
+     */
+    async send(
+        payload: { id: string; [key: string]: any },
+        onToken: (token: string) => void,
+        timeout: number,
+        token?: vscode.CancellationToken
+    ): Promise<RequestResult> {
+        const tokens: string[] = [];
+
+        const result = await this.sender.send(
+            payload,
+            (responseToken: string) => {
+                tokens.push(responseToken);
+                onToken(responseToken);
+            },
+            timeout,
+            token
+        );
+
+        if (result.outcome === RequestOutcome.Completed) {
+            await recordAnswer(payload, { tokens: tokens });
+        } else if (result.outcome === RequestOutcome.Error) {
+            await recordAnswer(payload, {
+                error: result.errorDescription ?? "",
+            });
+        }
+
+        return result;
+    }
+}
+
+/**
+ * Answers requests from a fixture instead of the Intelligence Platform.
+ *
+ * The answers are streamed synchronously and in the recorded order, so a
+ * replay is deterministic. A question with no recorded answer fails with an
+ * error, which shows that the prompt sent for the same conversation has
+ * changed since it was recorded.
+ */
+export class ReplaySender implements RequestSender {
+    private fixture: Fixture;
+
+    /**
+     * Creates a replayer for the given fixture.
+     * @param fixture - The recorded answers.
+     */
+    constructor(fixture: Fixture) {
+        this.fixture = fixture;
+    }
+
+    /**
+     * Streams the recorded answer of a request. See `RequestSender.send()`.
+     */
+    async send(
+        payload: { id: string; [key: string]: any },
+        onToken: (token: string) => void,
+        timeout: number,
+        token?: vscode.CancellationToken
+    ): Promise<RequestResult> {
+        const answer = findAnswer(this.fixture, payload.question ?? "");
+
+        if (answer === undefined) {
+            return {
+                outcome: RequestOutcome.Error,
+                errorDescription: "No recorded answer matches the question.",
+            };
+        }
+
+        if (answer.error !== undefined) {
+            return {
+                outcome: RequestOutcome.Error,
+                errorDescription: answer.error,
+            };
+        }
+
+        for (const answerToken of getAnswerTokens(answer)) {
+            if (token?.isCancellationRequested) {
+                return { outcome: RequestOutcome.Cancelled };
+            }
+
+            onToken(answerToken);
+        }
+
+        return { outcome: RequestOutcome.Completed };
+    }
+}
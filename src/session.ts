@@ -0,0 +1,160 @@
+/*******************************************************************************
+ * (c) Copyright, Real-Time Innovations, 2024.
+ * All rights reserved.
+ * No duplications, whole or partial, manual or electronic, may be made
+ * without express written permission.  Any such copies, or
+ * revisions thereof, must display this notice unaltered.
+ * This code contains trade secrets of Real-Time Innovations, Inc.
+ */
+
+import * as vscode from "vscode";
+
+import { createConnextSession, deleteConnextSession } from "./utils";
+
+/**
+ * The time after which a session that no request used is deleted, in
+ * milliseconds.
+ */
+const SESSION_IDLE_TIMEOUT = 60 * 60 * 1000;
+
+/**
+ * The server session used by a chat request.
+ */
+export interface ChatSession {
+    /**
+     * The id of the session in the Intelligence Platform.
+     */
+    id: string;
+
+    /**
+     * Indicates whether the session was just created. A new session does not
+     * know the previous turns of the chat thread, so they must be sent with
+     * the request.
+     */
+    isNew: boolean;
+}
+
+/**
+ * Keeps track of the server sessions created for the Connext chat threads.
+ *
+ * VS Code does not expose an id for a chat thread, so the session id is
+ * stored in the metadata of every result and recovered from the history of
+ * the thread. A request without history starts a new thread with a new
+ * session.
+ *
+ * Several threads can be open at the same time, and there is no way to tell
+ * when one is cleared or closed. When a new thread starts, the sessions that
+ * have not been used for `SESSION_IDLE_TIMEOUT` are deleted in the server.
+ * The rest are deleted with `deleteAll()`, from the "Delete Chat Sessions"
+ * command or when the extension is deactivated. A thread whose session was
+ * deleted gets a new one, and its previous turns are sent again.
+ */
+export class SessionManager {
+    /**
+     * The sessions created by this extension that have not been deleted,
+     * and when a request last used them.
+     */
+    private sessions: Map<string, number>;
+
+    constructor() {
+        this.sessions = new Map<string, number>();
+    }
+
+    /**
+     * Returns the session for the chat thread of a request, creating one if
+     * the thread does not have a session yet.
+     *
+     * @param context - The chat context containing the history of the thread.
+     * @param accessCode - The access code to authenticate with the Intelligence Platform.
+     * @returns The session, or `undefined` if it could not be created.
+     */
+    async getSession(
+        context: vscode.ChatContext,
+        accessCode: string
+    ): Promise<ChatSession | undefined> {
+        // A thread without history is new and gets its own session
+        if (context.history.length > 0) {
+            const sessionId = getSessionIdFromHistory(context);
+
+            if (sessionId !== undefined && this.sessions.has(sessionId)) {
+                this.sessions.set(sessionId, Date.now());
+                return { id: sessionId, isNew: false };
+            }
+        } else {
+            await this.deleteIdle(accessCode);
+        }
+
+        const sessionId = await createConnextSession(accessCode);
+
+        if (sessionId === undefined) {
+            return undefined;
+        }
+
+        this.sessions.set(sessionId, Date.now());
+
+        return { id: sessionId, isNew: true };
+    }
+
+    /**
+     * Deletes all the sessions in the server.
+     *
+     * @param accessCode - The access code to authenticate with the Intelligence Platform.
+     * @returns A promise that resolves when all the sessions are deleted.
+     */
+    async deleteAll(accessCode: string): Promise<void> {
+        await this.delete(Array.from(this.sessions.keys()), accessCode);
+    }
+
+    /**
+     * Deletes the sessions that have not been used for
+     * `SESSION_IDLE_TIMEOUT`.
+     *
+     * @param accessCode - The access code to authenticate with the Intelligence Platform.
+     * @returns A promise that resolves when the sessions are deleted.
+     */
+    private async deleteIdle(accessCode: string): Promise<void> {
+        const now = Date.now();
+
+        await this.delete(
+            Array.from(this.sessions.entries())
+                .filter(([, lastUsed]) => now - lastUsed >= SESSION_IDLE_TIMEOUT)
+                .map(([sessionId]) => sessionId),
+            accessCode
+        );
+    }
+
+    private async delete(sessionIds: string[], accessCode: string) {
+        sessionIds.forEach((sessionId) => this.sessions.delete(sessionId));
+
+        await Promise.all(
+            sessionIds.map((sessionId) =>
+                deleteConnextSession(sessionId, accessCode)
+            )
+        );
+    }
+}
+
+/**
+ * Finds the session id stored in the metadata of the most recent response of
+ * a chat thread.
+ *
+ * @param context - The chat context containing the history of the thread.
+ * @returns The session id, or `undefined` if the thread does not have one.
+ */
+function getSessionIdFromHistory(
+    context: vscode.ChatContext
+): string | undefined {
+    for (let i = context.history.length - 1; i >= 0; i--) {
+        const turn = context.history[i];
+
+        if (turn instanceof vscode.ChatResponseTurn) {
+            const sessionId = turn.result.metadata?.sessionId;
+
+            if (sessionId !== undefined) {
+                return sessionId;
+            }
+        }
+    }
+
+    return undefined;
+}
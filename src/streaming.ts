@@ -0,0 +1,206 @@
+/*******************************************************************************
+ * (c) Copyright, Real-Time Innovations, 2024.
+ * All rights reserved.
+ * No duplications, whole or partial, manual or electronic, may be made
+ * without express written permission.  Any such copies, or
+ * revisions thereof, must display this notice unaltered.
+ * This code contains trade secrets of Real-Time Innovations, Inc.
+ */
+
+import * as vscode from "vscode";
+import fetch from "node-fetch";
+import { recordUsage } from "./account";
+
+import { LineDecoder } from "./core/stream";
+import { RequestOutcome, RequestResult, RequestSender } from "./multiplexer";
+import { getAgent } from "./network";
+
+/**
+ * Sends chat requests over HTTP and streams the answers back, for networks
+ * where WebSocket upgrades are blocked (for example, by a corporate proxy).
+ *
+ * The request is posted to `/api/v1/copilot/ask` with `stream` set. The
+ * server answers with Server-Sent Events (`data: <json>` lines) or with
+ * chunked newline-delimited JSON. Each JSON message has the same format as a
+ * Socket.IO "response" message: a `token`, or `last_token` set to `true` at
+ * the end of the answer, or `error` and `error_description` on failure.
+ */
+export class HttpStreamingSender implements RequestSender {
+    private httpUrl: string;
+    private accessCode: string;
+
+    /**
+     * Creates a sender for the given server.
+     * @param httpUrl - The HTTP URL of the Intelligence Platform.
+     * @param accessCode - The access code to authenticate with the Intelligence Platform.
+     */
+    constructor(httpUrl: string, accessCode: string) {
+        this.httpUrl = httpUrl;
+        this.accessCode = accessCode;
+    }
+
+    /**
+     * Posts a request and streams the answer. See `RequestSender.send()`.
+     * Closing the HTTP connection tells the server to stop generating the
+     * response when the request is cancelled or times out.
+     */
+    async send(
+        payload: { id: string; [key: string]: any },
+        onToken: (token: string) => void,
+        timeout: number,
+        token?: vscode.CancellationToken
+    ): Promise<RequestResult> {
+        if (token?.isCancellationRequested) {
+            return { outcome: RequestOutcome.Cancelled };
+        }
+
+        const controller = new AbortController();
+        let abortOutcome: RequestOutcome | undefined = undefined;
+
+        const abort = (outcome: RequestOutcome) => {
+            if (abortOutcome === undefined) {
+                abortOutcome = outcome;
+                controller.abort();
+            }
+        };
+
+        const timer = setTimeout(
+            () => abort(RequestOutcome.TimedOut),
+            timeout
+        );
+
+        const cancellation = token?.onCancellationRequested(() =>
+            abort(RequestOutcome.Cancelled)
+        );
+
+        try {
+            const uri = `${this.httpUrl}/api/v1/copilot/ask`;
+
+            const response = await fetch(
+                uri,
+                {
+                    agent: getAgent(uri),
+                    method: "POST",
+                    headers: {
+                        "Content-Type": "application/json",
+                        Accept: "text/event-stream, application/x-ndjson",
+                        Authorization: `Bearer ${this.accessCode}`,
+                    },
+                    body: JSON.stringify({ ...payload, stream: true }),
+                    signal: controller.signal,
+                }
+            );
+
+            recordUsage(response.headers);
+
+            if (!response.ok) {
+                return {
+                    outcome: RequestOutcome.Error,
+                    errorDescription: `HTTP request failed with status ${response.status}`,
+                };
+            }
+
+            const decoder = new LineDecoder();
+
+            for await (const chunk of response.body) {
+                const result = this.processLines(
+                    decoder.push(chunk as Buffer),
+                    onToken
+                );
+
+                if (result !== undefined) {
+                    return result;
+                }
+            }
+
+            const result = this.processLines(decoder.end(), onToken);
+
+            if (result !== undefined) {
+                return result;
+            }
+
+            // The server closed the stream before the last token
+            return { outcome: RequestOutcome.Disconnected };
+        } catch (error) {
+            if (abortOutcome !== undefined) {
+                return { outcome: abortOutcome };
+            }
+
+            return {
+                outcome: RequestOutcome.Disconnected,
+                errorDescription: `${error}`,
+            };
+        } finally {
+            clearTimeout(timer);
+            cancellation?.dispose();
+        }
+    }
+
+    /**
+     * Processes the lines of the stream, until one of them finishes the
+     * request.
+     *
+     * @returns The result of the request if a line finishes it, otherwise `undefined`.
+     */
+    private processLines(
+        lines: string[],
+        onToken: (token: string) => void
+    ): RequestResult | undefined {
+        for (const line of lines) {
+            const result = this.processLine(line, onToken);
+
+            if (result !== undefined) {
+                return result;
+            }
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Processes a line of the stream.
+     *
+     * @returns The result of the request if the line finishes it, otherwise `undefined`.
+     */
+    private processLine(
+        line: string,
+        onToken: (token: string) => void
+    ): RequestResult | undefined {
+        line = line.trim();
+
+        if (line.startsWith("data:")) {
+            line = line.substring("data:".length).trim();
+        }
+
+        // Skip blank lines, SSE comments and other SSE fields
+        if (!line.startsWith("{")) {
+            return undefined;
+        }
+
+        let parsedData;
+
+        try {
+            parsedData = JSON.parse(line);
+        } catch (error) {
+            return {
+                outcome: RequestOutcome.Error,
+                errorDescription: `Failed to parse response from server: ${error}`,
+            };
+        }
+
+        if (parsedData.error) {
+            return {
+                outcome: RequestOutcome.Error,
+                errorDescription: parsedData.error_description,
+            };
+        }
+
+        if (parsedData.last_token === true) {
+            return { outcome: RequestOutcome.Completed };
+        }
+
+        onToken(parsedData.token);
+
+        return undefined;
+    }
+}
@@ -0,0 +1,185 @@
+/*******************************************************************************
+ * (c) Copyright, Real-Time Innovations, 2024.
+ * All rights reserved.
+ * No duplications, whole or partial, manual or electronic, may be made
+ * without express written permission.  Any such copies, or
+ * revisions thereof, must display this notice unaltered.
+ * This code contains trade secrets of Real-Time Innovations, Inc.
+ */
+
+import * as vscode from "vscode";
+
+import {
+    applyEnvironmentChanges,
+    Architecture,
+    getEnvironmentChanges,
+    Installation,
+} from "./core/installation";
+import {
+    getDefaultInstallation,
+    onDidChangeDefaultInstallation,
+} from "./installation";
+import { InstallationWatcher } from "./installationWatcher";
+import { showErrorMessage } from "./utils";
+
+/**
+ * The id of the Connext terminal profile, contributed in package.json.
+ */
+export const CONNEXT_TERMINAL_PROFILE_ID = "connext-vc-copilot.terminal";
+
+/**
+ * Returns the options of a terminal with the environment of an
+ * architecture already set up.
+ *
+ * @param installation - The installation.
+ * @param architecture - The architecture whose environment is set up.
+ * @returns The terminal options.
+ */
+function getTerminalOptions(
+    installation: Installation,
+    architecture: Architecture
+): vscode.TerminalOptions {
+    const changes = getEnvironmentChanges(
+        installation.directory,
+        architecture.name,
+        process.platform
+    );
+    const env = applyEnvironmentChanges(process.env, changes, process.platform);
+
+    // Only pass the variables that change, the terminal inherits the others
+    let terminalEnv: { [key: string]: string } = {};
+
+    for (const [name, value] of Object.entries(env)) {
+        if (value !== undefined && value !== process.env[name]) {
+            terminalEnv[name] = value;
+        }
+    }
+
+    return {
+        name: `Connext ${installation.version ?? "(unknown version)"} / ${architecture.name}`,
+        env: terminalEnv,
+        iconPath: new vscode.ThemeIcon("package"),
+    };
+}
+
+/**
+ * Opens a terminal with the environment of an architecture already set up.
+ *
+ * @param installation - The installation.
+ * @param architecture - The architecture whose environment is set up.
+ */
+export function openConnextTerminal(
+    installation: Installation,
+    architecture: Architecture
+) {
+    vscode.window
+        .createTerminal(getTerminalOptions(installation, architecture))
+        .show();
+}
+
+/**
+ * Makes the new integrated terminals of the workspace use the default
+ * installation and architecture, unless the
+ * `connext.terminal.applyEnvironment` setting is disabled.
+ *
+ * @param collection - The environment variable collection of the extension.
+ * @param installations - The installations.
+ */
+function updateEnvironmentCollection(
+    collection: vscode.GlobalEnvironmentVariableCollection,
+    installations: Installation[]
+) {
+    collection.clear();
+
+    const applyEnvironment = vscode.workspace
+        .getConfiguration("connext")
+        .get<boolean>("terminal.applyEnvironment", true);
+    const defaultInstallation = getDefaultInstallation(installations);
+
+    if (!applyEnvironment || defaultInstallation === undefined) {
+        return;
+    }
+
+    const [installation, architecture] = defaultInstallation;
+    const delimiter = process.platform === "win32" ? ";" : ":";
+
+    for (const change of getEnvironmentChanges(
+        installation.directory,
+        architecture.name,
+        process.platform
+    )) {
+        if (change.prepend) {
+            collection.prepend(change.name, change.value + delimiter);
+        } else {
+            collection.replace(change.name, change.value);
+        }
+    }
+
+    collection.description = `Sets up the environment of ${installation.directory} (${architecture.name})`;
+}
+
+/**
+ * Registers the Connext terminal profile, the command that opens a Connext
+ * terminal and the environment variables of the integrated terminals.
+ *
+ * @param context - The extension context.
+ * @param watcher - The watcher that keeps the installations up to date.
+ */
+export function registerConnextTerminal(
+    context: vscode.ExtensionContext,
+    watcher: InstallationWatcher
+) {
+    const collection = context.environmentVariableCollection;
+    const update = () =>
+        updateEnvironmentCollection(collection, watcher.currentInstallations);
+
+    update();
+
+    context.subscriptions.push(
+        vscode.window.registerTerminalProfileProvider(
+            CONNEXT_TERMINAL_PROFILE_ID,
+            {
+                provideTerminalProfile() {
+                    const defaultInstallation = getDefaultInstallation(
+                        watcher.currentInstallations
+                    );
+
+                    if (defaultInstallation === undefined) {
+                        showErrorMessage(
+                            "No default installation. Select one in the Connext view."
+                        );
+                        return undefined;
+                    }
+
+                    return new vscode.TerminalProfile(
+                        getTerminalOptions(...defaultInstallation)
+                    );
+                },
+            }
+        ),
+        vscode.commands.registerCommand(
+            "connext-vc-copilot.open-terminal",
+            () => {
+                const defaultInstallation = getDefaultInstallation(
+                    watcher.currentInstallations
+                );
+
+                if (defaultInstallation === undefined) {
+                    showErrorMessage(
+                        "No default installation. Select one in the Connext view."
+                    );
+                    return;
+                }
+
+                openConnextTerminal(...defaultInstallation);
+            }
+        ),
+        watcher.onDidChangeInstallations(update),
+        onDidChangeDefaultInstallation(update),
+        vscode.workspace.onDidChangeConfiguration((event) => {
+            if (event.affectsConfiguration("connext.terminal.applyEnvironment")) {
+                update();
+            }
+        })
+    );
+}
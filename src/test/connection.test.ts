@@ -0,0 +1,164 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+
+import { Auth } from '../auth';
+import { ConnectionManager, ConnectionState } from '../connection';
+import { API_TOKEN_VARIABLE } from '../core/credentials';
+import { RequestOutcome, RequestSender } from '../multiplexer';
+import { HttpStreamingSender } from '../streaming';
+import { MockServer, startMockServer } from './mock/server';
+
+const TIMEOUT = 5000;
+
+/**
+ * Sends a question and collects the streamed answer.
+ */
+async function ask(
+	sender: RequestSender,
+	id: string,
+	question: string,
+	onToken?: (token: string) => void,
+	token?: vscode.CancellationToken
+) {
+	const tokens: string[] = [];
+	const result = await sender.send(
+		{ id: id, question: question },
+		(responseToken) => {
+			tokens.push(responseToken);
+			onToken?.(responseToken);
+		},
+		TIMEOUT,
+		token
+	);
+
+	return { result: result, answer: tokens.join('') };
+}
+
+/**
+ * Checks that a sender answers, cancels and reports errors like the
+ * Intelligence Platform.
+ */
+function testSender(getSender: () => RequestSender) {
+	test('Streams an answer', async () => {
+		const { result, answer } = await ask(getSender(), 'request-1', 'hello');
+
+		assert.strictEqual(result.outcome, RequestOutcome.Completed);
+		assert.strictEqual(answer, 'Hello from Connext, grüße 😀');
+	});
+
+	test('Cancels an answer and answers the next question', async () => {
+		const source = new vscode.CancellationTokenSource();
+
+		const { result } = await ask(
+			getSender(), 'request-2', 'long question', () => source.cancel(), source.token);
+
+		assert.strictEqual(result.outcome, RequestOutcome.Cancelled);
+
+		const next = await ask(getSender(), 'request-3', 'hello');
+
+		assert.strictEqual(next.result.outcome, RequestOutcome.Completed);
+		assert.strictEqual(next.answer, 'Hello from Connext, grüße 😀');
+	});
+
+	test('Reports the errors of the server', async () => {
+		const { result } = await ask(getSender(), 'request-4', 'fail now');
+
+		assert.strictEqual(result.outcome, RequestOutcome.Error);
+		assert.strictEqual(result.errorDescription, 'Scripted failure');
+	});
+}
+
+suite('Connection Test Suite', () => {
+	let server: MockServer;
+	const previousToken = process.env[API_TOKEN_VARIABLE];
+
+	suiteSetup(async () => {
+		// The headless token is accepted by the mock server
+		process.env[API_TOKEN_VARIABLE] = 'test';
+
+		await Auth.setup({
+			subscriptions: [],
+			secrets: {
+				get: async () => undefined,
+				store: async () => {},
+				delete: async () => {},
+				onDidChange: new vscode.EventEmitter<vscode.SecretStorageChangeEvent>().event,
+			},
+		} as unknown as vscode.ExtensionContext);
+
+		server = await startMockServer({
+			tokenDelay: 10,
+			fixture: {
+				answers: [
+					{ question: 'hello', tokens: ['Hello', ' from', ' Connext', ', grü', 'ße 😀'] },
+					{ match: '^long', tokens: Array.from({ length: 100 }, (_, i) => `token ${i} `) },
+					{ match: '^fail', error: 'Scripted failure' },
+				],
+			},
+		});
+	});
+
+	suiteTeardown(async () => {
+		await server.close();
+
+		if (previousToken === undefined) {
+			delete process.env[API_TOKEN_VARIABLE];
+		} else {
+			process.env[API_TOKEN_VARIABLE] = previousToken;
+		}
+	});
+
+	suite('Socket.IO', () => {
+		let connection: ConnectionManager;
+		let sender: RequestSender;
+
+		suiteSetup(async () => {
+			connection = new ConnectionManager();
+
+			const multiplexer = await connection.connect(server.url, TIMEOUT);
+
+			assert.ok(multiplexer);
+			assert.strictEqual(connection.currentState, ConnectionState.Connected);
+			sender = multiplexer;
+		});
+
+		suiteTeardown(() => {
+			connection.dispose();
+		});
+
+		testSender(() => sender);
+
+		test('Shares the connection between concurrent questions', async () => {
+			const [first, second] = await Promise.all([
+				connection.connect(server.url, TIMEOUT),
+				connection.connect(server.url, TIMEOUT),
+			]);
+
+			assert.strictEqual(first, sender);
+			assert.strictEqual(second, sender);
+		});
+	});
+
+	suite('HTTP streaming', () => {
+		testSender(() => new HttpStreamingSender(`http://localhost:${server.port}`, 'test'));
+	});
+
+	test('Fails without waiting for the timeout when the server is down', async () => {
+		const stopped = await startMockServer();
+		const url = stopped.url;
+		await stopped.close();
+
+		const connection = new ConnectionManager();
+		const start = Date.now();
+
+		try {
+			const multiplexer = await connection.connect(url, 4 * TIMEOUT);
+
+			assert.strictEqual(multiplexer, undefined);
+			assert.ok(Date.now() - start < TIMEOUT);
+			assert.ok(connection.stateReason?.includes('Error connecting'));
+		} finally {
+			connection.dispose();
+		}
+	});
+});
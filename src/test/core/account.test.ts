@@ -0,0 +1,81 @@
+import * as assert from 'assert';
+
+import { describeAccount, getAccountInfo, parseUsageHeaders } from '../../core/account';
+
+function jwt(claims: object): string {
+	const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+	return `${encode({ alg: 'none' })}.${encode(claims)}.signature`;
+}
+
+suite('Account Test Suite', () => {
+	test('Decodes the identity and the scopes', () => {
+		const account = getAccountInfo(
+			jwt({ sub: 'auth0|1', scope: 'ask:question session:create', exp: 2000 }),
+			jwt({ sub: 'auth0|1', email: 'user@example.com', name: 'User' }));
+
+		assert.deepStrictEqual(account, {
+			id: 'auth0|1',
+			email: 'user@example.com',
+			name: 'User',
+			scopes: ['ask:question', 'session:create'],
+			expiresAt: 2000,
+		});
+	});
+
+	test('Reads the permissions when there is no scope claim', () => {
+		const account = getAccountInfo(jwt({ sub: 'client@clients', permissions: ['ask:question'] }));
+
+		assert.deepStrictEqual(account.scopes, ['ask:question']);
+		assert.strictEqual(account.email, undefined);
+	});
+
+	test('Accepts tokens that are not JWTs', () => {
+		assert.deepStrictEqual(getAccountInfo('opaque-token'), {
+			id: 'unknown',
+			email: undefined,
+			name: undefined,
+			scopes: [],
+			expiresAt: undefined,
+		});
+	});
+
+	test('Parses the rate limit headers', () => {
+		const headers: Record<string, string> = {
+			'x-ratelimit-limit': '100',
+			'x-ratelimit-remaining': '42',
+			'ratelimit-reset': '60',
+		};
+
+		assert.deepStrictEqual(parseUsageHeaders((name) => headers[name], 1000), {
+			limit: 100,
+			remaining: 42,
+			reset: 1060,
+			quotaLimit: undefined,
+			quotaRemaining: undefined,
+		});
+		assert.strictEqual(parseUsageHeaders(() => null, 1000), undefined);
+	});
+
+	test('Describes the account and the usage', () => {
+		const lines = describeAccount(
+			'default',
+			{ id: 'auth0|1', email: 'user@example.com', scopes: ['ask:question'], expiresAt: 1000 + 2 * 3600 },
+			{ remaining: 5, limit: 10, reset: 1030, quotaRemaining: 7 },
+			1000);
+
+		assert.deepStrictEqual(lines, [
+			'Environment: default',
+			'Account: user@example.com',
+			'Id: auth0|1',
+			'Scopes: ask:question',
+			'Token expires: 1970-01-01T02:16:40.000Z (in 2 h 0 min)',
+			'Rate limit: 5 of 10 requests left, resets in 30 s',
+			'Quota: 7 left',
+		]);
+		assert.deepStrictEqual(describeAccount('production', undefined, undefined, 1000), [
+			'Environment: production',
+			'Not logged in',
+		]);
+	});
+});
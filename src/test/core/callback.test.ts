@@ -0,0 +1,33 @@
+import * as assert from 'assert';
+
+import { getCallbackPage, parseCallback } from '../../core/callback';
+
+suite('Callback Test Suite', () => {
+	test('Parses the authorization code', () => {
+		assert.deepStrictEqual(
+			parseCallback(new URLSearchParams('code=abc&state=xyz')),
+			{ kind: 'code', authCode: 'abc', receivedState: 'xyz' });
+	});
+
+	test('Parses the errors reported by the identity provider', () => {
+		assert.deepStrictEqual(
+			parseCallback(new URLSearchParams('error=access_denied&error_description=User%20cancelled&state=xyz')),
+			{ kind: 'error', error: 'access_denied', description: 'User cancelled', receivedState: 'xyz' });
+		assert.deepStrictEqual(
+			parseCallback(new URLSearchParams('error=login_required')),
+			{ kind: 'error', error: 'login_required', description: 'login_required', receivedState: null });
+	});
+
+	test('Rejects callbacks without a code or an error', () => {
+		assert.deepStrictEqual(parseCallback(new URLSearchParams('state=xyz')), { kind: 'invalid' });
+	});
+
+	test('Escapes the message of the page', () => {
+		const page = getCallbackPage(false, '<script>alert("x")</script>');
+
+		assert.ok(page.includes('Connext login failed'));
+		assert.ok(page.includes('&lt;script&gt;alert(&quot;x&quot;)&lt;/script&gt;'));
+		assert.ok(!page.includes('<script>'));
+		assert.ok(getCallbackPage(true, 'Done').includes('Connext login successful'));
+	});
+});
@@ -0,0 +1,26 @@
+import * as assert from 'assert';
+
+import { getHeadlessCredentials } from '../../core/credentials';
+
+suite('Credentials Test Suite', () => {
+	test('Returns no credentials when none are set', () => {
+		assert.strictEqual(getHeadlessCredentials({}), undefined);
+		assert.strictEqual(getHeadlessCredentials({ CONNEXT_CLIENT_ID: 'id' }), undefined);
+	});
+
+	test('Reads the client credentials', () => {
+		assert.deepStrictEqual(
+			getHeadlessCredentials({ CONNEXT_CLIENT_ID: 'id', CONNEXT_CLIENT_SECRET: 'secret' }),
+			{ kind: 'clientCredentials', clientId: 'id', clientSecret: 'secret' });
+	});
+
+	test('Prefers the personal access token', () => {
+		assert.deepStrictEqual(
+			getHeadlessCredentials({
+				CONNEXT_API_TOKEN: 'token',
+				CONNEXT_CLIENT_ID: 'id',
+				CONNEXT_CLIENT_SECRET: 'secret',
+			}),
+			{ kind: 'apiToken', token: 'token' });
+	});
+});
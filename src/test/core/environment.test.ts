@@ -0,0 +1,81 @@
+import * as assert from 'assert';
+
+import {
+	CONNEXT_SCOPES,
+	DEFAULT_AUTH_CONFIG,
+	findEnvironment,
+	getEnvironments,
+	getSecretKey,
+	parseEnvironment,
+} from '../../core/environment';
+
+suite('Environment Test Suite', () => {
+	test('Always includes the built-in environment', () => {
+		const { environments, errors } = getEnvironments('wss://sandbox-chatbot.rti.com', []);
+
+		assert.deepStrictEqual(errors, []);
+		assert.deepStrictEqual(environments, [{
+			name: 'default',
+			intelligencePlatformUrl: 'wss://sandbox-chatbot.rti.com',
+			auth: DEFAULT_AUTH_CONFIG,
+			scopes: CONNEXT_SCOPES,
+		}]);
+	});
+
+	test('Uses the default login and scopes when a profile omits them', () => {
+		const environment = parseEnvironment({
+			name: 'production',
+			intelligencePlatformUrl: 'wss://chatbot.rti.com',
+		});
+
+		assert.strictEqual(environment.auth, DEFAULT_AUTH_CONFIG);
+		assert.strictEqual(environment.scopes, CONNEXT_SCOPES);
+	});
+
+	test('Reads the login and scopes of a profile', () => {
+		const environment = parseEnvironment({
+			name: 'onprem',
+			intelligencePlatformUrl: 'ws://localhost:8502',
+			auth: { domain: 'login.example.com', clientId: 'abc', audience: 'https://example.com/api' },
+			scopes: ['ask:question'],
+		});
+
+		assert.deepStrictEqual(environment.auth, {
+			domain: 'login.example.com',
+			clientId: 'abc',
+			audience: 'https://example.com/api',
+		});
+		assert.deepStrictEqual(environment.scopes, ['ask:question']);
+	});
+
+	test('Reports and skips invalid profiles', () => {
+		const { environments, errors } = getEnvironments('wss://sandbox-chatbot.rti.com', [
+			{ name: 'default', intelligencePlatformUrl: 'wss://chatbot.rti.com' },
+			{ name: 'no-url' },
+			{ name: 'partial-auth', intelligencePlatformUrl: 'wss://x', auth: { domain: 'd' } },
+			{ name: 'production', intelligencePlatformUrl: 'wss://chatbot.rti.com' },
+			{ name: 'production', intelligencePlatformUrl: 'wss://other.rti.com' },
+		]);
+
+		assert.deepStrictEqual(environments.map((e) => e.name), ['default', 'production']);
+		assert.strictEqual(environments[1].intelligencePlatformUrl, 'wss://chatbot.rti.com');
+		assert.strictEqual(errors.length, 4);
+		assert.match(errors[0], /reserved/);
+		assert.match(errors[3], /more than once/);
+	});
+
+	test('Falls back to the built-in environment', () => {
+		const { environments } = getEnvironments('wss://sandbox-chatbot.rti.com', [
+			{ name: 'production', intelligencePlatformUrl: 'wss://chatbot.rti.com' },
+		]);
+
+		assert.strictEqual(findEnvironment(environments, 'production').name, 'production');
+		assert.strictEqual(findEnvironment(environments, 'removed').name, 'default');
+		assert.strictEqual(findEnvironment(environments, undefined).name, 'default');
+	});
+
+	test('Keeps the secret keys of the built-in environment', () => {
+		assert.strictEqual(getSecretKey('default', 'accessToken'), 'accessToken');
+		assert.strictEqual(getSecretKey('production', 'accessToken'), 'production.accessToken');
+	});
+});
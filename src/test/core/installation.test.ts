@@ -0,0 +1,352 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import {
+	applyEnvironmentChanges,
+	compareInstallations,
+	discoverInstallations,
+	findInstalledTools,
+	getDefaultInstallation,
+	getEnvironmentChanges,
+	getInstallationSearchPaths,
+	getSystemSearchPaths,
+	parseEnvironmentOutput,
+	parseProductInventory,
+	resolveArchitectureEnvironment,
+} from '../../core/installation';
+
+function createInstallation(
+	parentDir: string, name: string, architectures: string[], version = '7.3.0'): string {
+	const dir = path.join(parentDir, name);
+
+	for (const arch of [...architectures, 'java']) {
+		fs.mkdirSync(path.join(dir, 'lib', arch), { recursive: true });
+	}
+
+	fs.writeFileSync(
+		path.join(dir, 'rti_versions.xml'),
+		`<rti><host><base_version>${version}</base_version></host></rti>`);
+
+	return dir;
+}
+
+suite('Installation Test Suite', () => {
+	let homeDir: string;
+
+	setup(() => {
+		homeDir = fs.mkdtempSync(path.join(os.tmpdir(), 'connext-installation-'));
+	});
+
+	teardown(() => {
+		fs.rmSync(homeDir, { recursive: true, force: true });
+	});
+
+	test('Returns no installations when there are none', () => {
+		const installations = discoverInstallations({
+			platform: 'linux',
+			env: { HOME: homeDir },
+		});
+
+		assert.deepStrictEqual(installations, []);
+	});
+
+	test('Finds the installations in the home directory on Linux', () => {
+		const dir = createInstallation(homeDir, 'rti_connext_dds-7.3.0', ['x64Linux4gcc7.3.0']);
+		fs.mkdirSync(path.join(homeDir, 'other'));
+
+		const installations = discoverInstallations({
+			platform: 'linux',
+			env: { HOME: homeDir, SHELL: '/bin/zsh' },
+		});
+
+		assert.strictEqual(installations.length, 1);
+		assert.strictEqual(installations[0].directory, dir);
+		assert.strictEqual(installations[0].version, '7.3.0');
+		assert.deepStrictEqual(installations[0].architecture_names(), ['x64Linux4gcc7.3.0']);
+		assert.strictEqual(
+			installations[0].architectures[0].setEnvCmd,
+			`source ${dir}/resource/scripts/rtisetenv_x64Linux4gcc7.3.0.zsh`);
+
+		// A single installation with a single architecture is the default
+		const defaultInstallation = getDefaultInstallation(installations);
+		assert.ok(defaultInstallation !== undefined);
+		assert.strictEqual(defaultInstallation[1].name, 'x64Linux4gcc7.3.0');
+	});
+
+	test('Includes NDDSHOME and selects it as the default', () => {
+		createInstallation(homeDir, 'rti_connext_dds-7.2.0', ['x64Linux4gcc7.3.0']);
+		const nddshome = createInstallation(homeDir, 'custom', ['x64Linux4gcc7.3.0']);
+
+		const installations = discoverInstallations({
+			platform: 'linux',
+			env: { HOME: homeDir, NDDSHOME: nddshome },
+		});
+
+		assert.strictEqual(installations.length, 2);
+		assert.strictEqual(getDefaultInstallation(installations)?.[0].directory, nddshome);
+	});
+
+	test('Honors the installation and architecture selected by the user', () => {
+		createInstallation(homeDir, 'rti_connext_dds-7.2.0', ['x64Linux4gcc7.3.0']);
+		const selected = createInstallation(
+			homeDir, 'rti_connext_dds-7.3.0', ['x64Linux4gcc7.3.0', 'armv8Linux4gcc7.3.0']);
+
+		const installations = discoverInstallations({
+			platform: 'linux',
+			env: { HOME: homeDir },
+			defaultInstallationDir: selected,
+			defaultArchitecture: 'armv8Linux4gcc7.3.0',
+		});
+
+		const defaultInstallation = getDefaultInstallation(installations);
+		assert.strictEqual(defaultInstallation?.[0].directory, selected);
+		assert.strictEqual(defaultInstallation?.[1].name, 'armv8Linux4gcc7.3.0');
+	});
+
+	test('Prefers the selected installation over NDDSHOME', () => {
+		// The selected installation is found even outside the search paths
+		const selected = createInstallation(path.join(homeDir, 'projects'), 'connext', ['x64Linux4gcc7.3.0']);
+		const nddshome = createInstallation(homeDir, 'custom', ['x64Linux4gcc7.3.0']);
+
+		const installations = discoverInstallations({
+			platform: 'linux',
+			env: { HOME: homeDir, NDDSHOME: nddshome },
+			defaultInstallationDir: selected,
+		});
+
+		assert.deepStrictEqual(
+			installations.filter((installation) => installation.default).map((installation) => installation.directory),
+			[selected]);
+	});
+
+	test('Selects the installation with the pinned version', () => {
+		createInstallation(homeDir, 'rti_connext_dds-7.3.0', ['x64Linux4gcc7.3.0'], '7.3.0');
+		const pinned = createInstallation(homeDir, 'rti_connext_dds-7.2.0', ['x64Linux4gcc7.3.0'], '7.2.0');
+
+		const installations = discoverInstallations({
+			platform: 'linux',
+			env: { HOME: homeDir },
+			defaultVersion: '7.2.0',
+		});
+
+		assert.strictEqual(getDefaultInstallation(installations)?.[0].directory, pinned);
+	});
+
+	test('Searches the additional locations', () => {
+		const sharedDir = path.join(homeDir, 'nfs');
+		const shared = createInstallation(sharedDir, 'rti_connext_dds-7.1.0', ['x64Linux4gcc7.3.0']);
+		const custom = createInstallation(homeDir, 'connext', ['x64Linux4gcc7.3.0']);
+
+		const installations = discoverInstallations({
+			platform: 'linux',
+			env: { HOME: homeDir },
+			searchPaths: ['~/nfs', custom, path.join(homeDir, 'missing')],
+		});
+
+		assert.deepStrictEqual(installations.map((i) => i.directory), [shared, custom]);
+	});
+
+	test('Lists the installations reached through symbolic links once', () => {
+		const dir = createInstallation(homeDir, 'rti_connext_dds-7.3.0', ['x64Linux4gcc7.3.0']);
+		const linksDir = path.join(homeDir, 'links');
+		fs.mkdirSync(linksDir);
+		fs.symlinkSync(dir, path.join(linksDir, 'rti_connext_dds-latest'));
+
+		const installations = discoverInstallations({
+			platform: 'linux',
+			env: { HOME: homeDir, NDDSHOME: path.join(linksDir, 'rti_connext_dds-latest') },
+			searchPaths: [linksDir],
+		});
+
+		assert.deepStrictEqual(installations.map((i) => i.directory), [dir]);
+		assert.ok(installations[0].default);
+	});
+
+	test('Includes the common system locations', () => {
+		assert.deepStrictEqual(getSystemSearchPaths('linux', {}), ['/opt', '/opt/rti', '/usr/local']);
+		assert.deepStrictEqual(
+			getSystemSearchPaths('win32', { 'ProgramFiles(x86)': 'C:\\Program Files (x86)' }),
+			['C:\\Program Files (x86)']);
+	});
+
+	test('Lists the locations searched', () => {
+		assert.deepStrictEqual(
+			getInstallationSearchPaths({ platform: 'linux', env: { HOME: '/home/user' }, searchPaths: ['~/rti', '/nfs'] }),
+			['/home/user', '/home/user/rti', '/nfs']);
+	});
+
+	test('Reports the installations and architectures that changed', () => {
+		const dir = createInstallation(homeDir, 'rti_connext_dds-7.3.0', ['x64Linux4gcc7.3.0']);
+		const environment = { platform: 'linux' as const, env: { HOME: homeDir } };
+		const before = discoverInstallations(environment);
+
+		fs.mkdirSync(path.join(dir, 'lib', 'armv8Linux4gcc7.3.0'));
+		const other = createInstallation(homeDir, 'rti_connext_dds-7.4.0', ['x64Linux4gcc7.3.0']);
+		const after = discoverInstallations(environment);
+
+		assert.deepStrictEqual(compareInstallations(before, after), {
+			added: [`${dir} (armv8Linux4gcc7.3.0)`, other],
+			removed: [],
+		});
+		assert.deepStrictEqual(compareInstallations(after, before), {
+			added: [],
+			removed: [`${dir} (armv8Linux4gcc7.3.0)`, other],
+		});
+	});
+
+	test('Parses the packages of rti_versions.xml', () => {
+		const inventory = parseProductInventory(`<?xml version="1.0"?>
+			<rti>
+				<host>
+					<base_version>7.3.0</base_version>
+					<product><name>RTI Connext DDS Host</name><version>7.3.0</version></product>
+					<rti_routing_service><version>7.3.0.1</version></rti_routing_service>
+				</host>
+				<target>
+					<architecture name="x64Linux4gcc7.3.0">
+						<product><name>RTI Security Plugins Target</name><version>7.3.0</version></product>
+					</architecture>
+				</target>
+			</rti>`);
+
+		assert.strictEqual(inventory.baseVersion, '7.3.0');
+		assert.deepStrictEqual(inventory.packages, [
+			{ name: 'RTI Connext DDS Host', version: '7.3.0', architecture: undefined },
+			{ name: 'rti routing service', version: '7.3.0.1', architecture: undefined },
+			{ name: 'RTI Security Plugins Target', version: '7.3.0', architecture: 'x64Linux4gcc7.3.0' },
+		]);
+		assert.deepStrictEqual(parseProductInventory('not xml'), { baseVersion: undefined, packages: [] });
+	});
+
+	test('Selects the packages of an architecture', () => {
+		const dir = createInstallation(homeDir, 'rti_connext_dds-7.3.0', ['x64Linux4gcc7.3.0']);
+		fs.writeFileSync(path.join(dir, 'rti_versions.xml'), `<rti>
+			<host><base_version>7.3.0</base_version><product><name>Host</name><version>7.3.0</version></product></host>
+			<target><architecture>x64Linux4gcc7.3.0</architecture><product><name>Linux</name><version>7.3.0</version></product></target>
+			<target><architecture>x64Win64VS2017</architecture><product><name>Windows</name><version>7.3.0</version></product></target>
+		</rti>`);
+
+		const installations = discoverInstallations({ platform: 'linux', env: { HOME: homeDir } });
+
+		assert.strictEqual(installations[0].version, '7.3.0');
+		assert.deepStrictEqual(
+			installations[0].packagesFor('x64Linux4gcc7.3.0').map((p) => p.name),
+			['Host', 'Linux']);
+	});
+
+	test('Finds the tools of an installation', () => {
+		const dir = createInstallation(homeDir, 'rti_connext_dds-7.3.0', ['x64Linux4gcc7.3.0']);
+		fs.mkdirSync(path.join(dir, 'bin'));
+		fs.writeFileSync(path.join(dir, 'bin', 'rtiadminconsole'), '');
+		fs.writeFileSync(path.join(dir, 'bin', 'rtiddsgen.bat'), '');
+		fs.writeFileSync(path.join(dir, 'bin', 'other'), '');
+
+		assert.deepStrictEqual(findInstalledTools(dir, 'linux'), [
+			{ executable: 'rtiadminconsole', name: 'RTI Admin Console' },
+		]);
+		assert.deepStrictEqual(findInstalledTools(dir, 'win32'), [
+			{ executable: 'rtiddsgen', name: 'RTI Code Generator' },
+		]);
+	});
+
+	test('Uses batch scripts on Windows', () => {
+		const dir = createInstallation(homeDir, 'rti_connext_dds-7.3.0', ['x64Win64VS2017']);
+
+		const installations = discoverInstallations({
+			platform: 'win32',
+			env: { ProgramFiles: homeDir },
+		});
+
+		assert.strictEqual(
+			installations[0].architectures[0].setEnvCmd,
+			`"${dir}/resource/scripts/rtisetenv_x64Win64VS2017"`);
+	});
+
+	test('Sets up the environment of an architecture', () => {
+		const changes = getEnvironmentChanges('/opt/rti_connext_dds-7.3.0', 'x64Linux4gcc7.3.0', 'linux');
+
+		assert.deepStrictEqual(changes, [
+			{ name: 'NDDSHOME', value: '/opt/rti_connext_dds-7.3.0', prepend: false },
+			{ name: 'PATH', value: '/opt/rti_connext_dds-7.3.0/bin', prepend: true },
+			{ name: 'LD_LIBRARY_PATH', value: '/opt/rti_connext_dds-7.3.0/lib/x64Linux4gcc7.3.0', prepend: true },
+		]);
+
+		assert.deepStrictEqual(applyEnvironmentChanges({ PATH: '/usr/bin', HOME: '/home/user' }, changes, 'linux'), {
+			NDDSHOME: '/opt/rti_connext_dds-7.3.0',
+			PATH: '/opt/rti_connext_dds-7.3.0/bin:/usr/bin',
+			LD_LIBRARY_PATH: '/opt/rti_connext_dds-7.3.0/lib/x64Linux4gcc7.3.0',
+			HOME: '/home/user',
+		});
+	});
+
+	test('Keeps the spelling of the variables on Windows', () => {
+		const env = applyEnvironmentChanges(
+			{ Path: 'C:\\Windows' },
+			[{ name: 'PATH', value: 'C:\\rti\\bin', prepend: true }],
+			'win32');
+
+		assert.deepStrictEqual(env, { Path: 'C:\\rti\\bin;C:\\Windows' });
+	});
+
+	test('Parses the environment printed after the script output', () => {
+		const env = parseEnvironmentOutput(
+			'Setting up the environment\n__CONNEXT_ENVIRONMENT__\0NDDSHOME=/opt/rti dir\0MULTI=a\nPATH=b\0BASH_FUNC_module%%=() {  eval\nPATH=/tmp\n}\0PATH=/opt/rti dir/bin\0');
+
+		assert.deepStrictEqual(env, {
+			NDDSHOME: '/opt/rti dir',
+			MULTI: 'a\nPATH=b',
+			PATH: '/opt/rti dir/bin',
+		});
+		assert.strictEqual(parseEnvironmentOutput('bash: error\n'), undefined);
+	});
+
+	test('Parses the environment printed by cmd.exe', () => {
+		const env = parseEnvironmentOutput(
+			'__CONNEXT_ENVIRONMENT__\r\nNDDSHOME=C:\\rti\r\nProgramFiles(x86)=C:\\Program Files (x86)\r\n');
+
+		assert.deepStrictEqual(env, {
+			NDDSHOME: 'C:\\rti',
+			'ProgramFiles(x86)': 'C:\\Program Files (x86)',
+		});
+	});
+
+	test('Resolves the environment of an architecture once', async function () {
+		if (process.platform === 'win32') {
+			this.skip();
+		}
+
+		const dir = createInstallation(path.join(homeDir, 'with space'), 'rti_connext_dds-7.3.0', ['x64Linux4gcc7.3.0']);
+		const scriptsDir = path.join(dir, 'resource', 'scripts');
+		fs.mkdirSync(scriptsDir, { recursive: true });
+		fs.writeFileSync(
+			path.join(scriptsDir, 'rtisetenv_x64Linux4gcc7.3.0.bash'),
+			'echo "Setting up"\nexport NDDSHOME="' + dir + '"\nexport PATH="$NDDSHOME/bin:$PATH"\n' +
+			'export MULTI="a\nPATH=b"\nmodule() { echo "PATH=/tmp"; }\nexport -f module\nfalse\n');
+
+		const [installation] = discoverInstallations({
+			platform: 'linux',
+			env: { HOME: homeDir },
+			searchPaths: [path.join(homeDir, 'with space')],
+		});
+		const architecture = installation.architectures[0];
+
+		const env = await resolveArchitectureEnvironment(architecture, 'linux', { PATH: process.env.PATH });
+		assert.strictEqual(env.NDDSHOME, dir);
+		assert.ok(env.PATH?.startsWith(path.join(dir, 'bin') + ':'));
+		assert.strictEqual(env.MULTI, 'a\nPATH=b');
+
+		// The environment is cached on the architecture
+		assert.strictEqual(await resolveArchitectureEnvironment(architecture, 'linux', {}), env);
+	});
+
+	test('Reports a missing environment script', async () => {
+		createInstallation(homeDir, 'rti_connext_dds-7.3.0', ['x64Linux4gcc7.3.0']);
+		const [installation] = discoverInstallations({ platform: 'linux', env: { HOME: homeDir } });
+
+		await assert.rejects(
+			resolveArchitectureEnvironment(installation.architectures[0], 'linux', {}),
+			/environment script of x64Linux4gcc7.3.0 was not found/);
+	});
+});
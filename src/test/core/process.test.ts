@@ -0,0 +1,43 @@
+import * as assert from 'assert';
+
+import { describeExit, getBatchCommandLine, OutputTail } from '../../core/process';
+
+suite('Process Test Suite', () => {
+	test('Splits the output into lines across chunks', () => {
+		const tail = new OutputTail(10);
+
+		assert.deepStrictEqual(tail.append('Starting Admin'), []);
+		assert.deepStrictEqual(tail.append(' Console\r\nLoading'), ['Starting Admin Console']);
+		assert.deepStrictEqual(tail.flush(), ['Loading']);
+		assert.deepStrictEqual(tail.flush(), []);
+		assert.deepStrictEqual(tail.lastLines, ['Starting Admin Console', 'Loading']);
+	});
+
+	test('Keeps only the last lines', () => {
+		const tail = new OutputTail(2);
+
+		tail.append('one\ntwo\nthree\n');
+
+		assert.deepStrictEqual(tail.lastLines, ['two', 'three']);
+	});
+
+	test('Describes how a tool ended', () => {
+		assert.strictEqual(describeExit('RTI Shapes Demo', 0, null), undefined);
+		assert.strictEqual(describeExit('RTI Shapes Demo', 1, null), 'RTI Shapes Demo exited with code 1.');
+		assert.strictEqual(describeExit('RTI Shapes Demo', null, 'SIGSEGV'), 'RTI Shapes Demo was terminated by SIGSEGV.');
+	});
+
+	test('Escapes the arguments of a batch file', () => {
+		assert.strictEqual(
+			getBatchCommandLine('rtiddsgen', ['-language', 'C++11', 'my file.idl']),
+			'rtiddsgen ^^^"-language^^^" ^^^"C++11^^^" ^^^"my^^^ file.idl^^^"'
+		);
+	});
+
+	test('Escapes the shell metacharacters of the arguments', () => {
+		assert.strictEqual(
+			getBatchCommandLine('rtiddsgen', ['a" & calc & "', '%PATH%', 'x|y^z', 'dir\\']),
+			'rtiddsgen ^^^"a\\^^^"^^^ ^^^&^^^ calc^^^ ^^^&^^^ \\^^^"^^^" ^^^"^^^%PATH^^^%^^^" ^^^"x^^^|y^^^^z^^^" ^^^"dir\\\\^^^"'
+		);
+	});
+});
@@ -0,0 +1,72 @@
+import * as assert from 'assert';
+
+import {
+	findPublisherSubscriberAndTypeFiles,
+	getCMakeTemplateData,
+	getLanguageInfo,
+	isUnnecessaryExampleFile,
+} from '../../core/project';
+
+suite('Project Test Suite', () => {
+	test('Describes the supported languages', () => {
+		assert.strictEqual(getLanguageInfo('C++11')?.headerExtension, 'hpp');
+		assert.strictEqual(getLanguageInfo('Python')?.markupCode, 'python');
+		assert.strictEqual(getLanguageInfo('Rust'), undefined);
+	});
+
+	test('Finds the example files of snake case languages', () => {
+		assert.deepStrictEqual(
+			findPublisherSubscriberAndTypeFiles(
+				['sensor.idl', 'sensor_publisher.cxx', 'sensor_subscriber.cxx', 'sensor.hpp'],
+				'C++11'),
+			['sensor_publisher.cxx', 'sensor_subscriber.cxx', 'sensor.hpp']);
+	});
+
+	test('Finds the example files of Pascal case languages', () => {
+		assert.deepStrictEqual(
+			findPublisherSubscriberAndTypeFiles(
+				['src/SensorPublisher.java', 'src/SensorSubscriber.java', 'src/Sensor.java'],
+				'Java'),
+			['src/SensorPublisher.java', 'src/SensorSubscriber.java', 'src/Sensor.java']);
+	});
+
+	test('Fails when the example files are missing', () => {
+		assert.throws(
+			() => findPublisherSubscriberAndTypeFiles(['sensor_publisher.py'], 'Python'),
+			/Error finding Python files/);
+		assert.throws(
+			() => findPublisherSubscriberAndTypeFiles([], 'Rust'),
+			/Unexpected language/);
+	});
+
+	test('Builds the CMake template data', () => {
+		const configuration = {
+			workspace_name: 'sensor',
+			connext_version: '7.3.0',
+			connext_path: '/opt/rti_connext_dds-7.3.0',
+			language: 'C++98',
+			idl_file_name: 'sensor.idl',
+			architecture: 'x64Linux4gcc7.3.0',
+		};
+
+		const linuxData = getCMakeTemplateData(configuration, 'linux', undefined);
+		assert.strictEqual(linuxData.idl_file_name, 'sensor');
+		assert.strictEqual(linuxData.connext_libs, 'RTIConnextDDS::cpp_api');
+		assert.strictEqual(linuxData.generator, 'Unix Makefiles');
+		assert.strictEqual(linuxData.mi_mode, 'gdb');
+		assert.strictEqual(linuxData.platform, 'linux');
+
+		const windowsData = getCMakeTemplateData(configuration, 'win32', undefined);
+		assert.strictEqual(windowsData.generator, 'NMake Makefiles');
+		assert.strictEqual(windowsData.mi_mode, 'cppvsdbg');
+
+		assert.strictEqual(getCMakeTemplateData(configuration, 'win32', 'Ninja').generator, 'Ninja');
+	});
+
+	test('Recognizes the files not needed in a workspace', () => {
+		assert.ok(isUnnecessaryExampleFile('makefile_sensor_x64Linux4gcc7.3.0'));
+		assert.ok(isUnnecessaryExampleFile('README_x64Linux4gcc7.3.0.txt'));
+		assert.ok(isUnnecessaryExampleFile('sensor-64-publisher.vcxproj.filters'));
+		assert.ok(!isUnnecessaryExampleFile('sensor_publisher.cxx'));
+	});
+});
@@ -0,0 +1,151 @@
+import * as assert from 'assert';
+
+import {
+	buildPrompt,
+	generatePromptWithWorkspaceInfo,
+	HistoryTurnKind,
+	PromptOptions,
+	PromptReferenceAttributes,
+	PromptReferenceKind,
+} from '../../core/prompt';
+
+function options(overrides: Partial<PromptOptions> = {}): PromptOptions {
+	return {
+		history: [],
+		references: [],
+		defaultInstallation: undefined,
+		response: null,
+		restApi: true,
+		maxHistoryLength: 65536,
+		ignoredResponseText: [],
+		...overrides,
+	};
+}
+
+suite('Prompt Test Suite', () => {
+	test('Returns the question when there is no workspace information', () => {
+		assert.strictEqual(
+			generatePromptWithWorkspaceInfo('What is DDS?', [], undefined),
+			'What is DDS?\n');
+	});
+
+	test('Adds the references and the default installation', () => {
+		const prompt = generatePromptWithWorkspaceInfo(
+			'Explain this file',
+			[{
+				kind: PromptReferenceKind.File,
+				attributes: [PromptReferenceAttributes.UploadedFile],
+				path: '/work/app.xml',
+				content: '<dds/>',
+			}],
+			{ directory: '/opt/rti_connext_dds-7.3.0', architecture: 'x64Linux4gcc7.3.0' });
+
+		assert.ok(prompt.startsWith('Explain this file\n[Start Workspace Info]\n'));
+		assert.ok(prompt.endsWith('[End Workspace Info]\n'));
+		assert.ok(prompt.includes('"uri": "/work/app.xml"'));
+		assert.ok(prompt.includes('"attributes": [\n      "UploadedFile"\n    ]'));
+		assert.ok(prompt.includes('"architecture": "x64Linux4gcc7.3.0"'));
+	});
+
+	test('Lists the packages of the default installation', () => {
+		const prompt = generatePromptWithWorkspaceInfo('Enable security', [], {
+			directory: '/opt/rti_connext_dds-7.3.0',
+			architecture: 'x64Linux4gcc7.3.0',
+			version: '7.3.0',
+			installedPackages: ['RTI Security Plugins 7.3.0'],
+		});
+
+		assert.ok(prompt.includes('"version": "7.3.0"'));
+		assert.ok(prompt.includes('"installedPackages": [\n    "RTI Security Plugins 7.3.0"\n  ]'));
+	});
+
+	test('Includes the history with REST API tags', () => {
+		const prompt = buildPrompt('And in Python?', options({
+			history: [
+				{ kind: HistoryTurnKind.Request, prompt: 'How do I create a writer?' },
+				{ kind: HistoryTurnKind.Response, markdown: ['Use ', 'create_datawriter.'] },
+			],
+		}));
+
+		assert.ok(prompt.startsWith(
+			'[[BEGIN Human message]]\nHow do I create a writer?\n[[END Human message]]\n' +
+			'[[BEGIN AI message]]\nUse \ncreate_datawriter.\n[[END AI message]]\n' +
+			'[[BEGIN Human message]]\nAnd in Python?\n[[END Human message]]\n'));
+	});
+
+	test('Uses plain labels without the REST API', () => {
+		const prompt = buildPrompt('And in Python?', options({
+			restApi: false,
+			history: [
+				{ kind: HistoryTurnKind.Request, prompt: 'How do I create a writer?' },
+				{ kind: HistoryTurnKind.Response, markdown: ['Use create_datawriter.'] },
+			],
+		}));
+
+		assert.ok(prompt.startsWith(
+			'Human message: How do I create a writer?\n' +
+			'AI message: Use create_datawriter.\n' +
+			'Human message: And in Python?\n'));
+	});
+
+	test('Removes the text added by the extension from the answers', () => {
+		const prompt = buildPrompt('Next', options({
+			history: [
+				{ kind: HistoryTurnKind.Request, prompt: 'Question' },
+				{ kind: HistoryTurnKind.Response, markdown: ['Answer', '*Warning*'] },
+			],
+			ignoredResponseText: ['*Warning*'],
+		}));
+
+		assert.ok(!prompt.includes('*Warning*'));
+		assert.ok(prompt.includes('[[BEGIN AI message]]\nAnswer\n\n[[END AI message]]\n'));
+	});
+
+	test('Marks empty answers', () => {
+		const prompt = buildPrompt(null, options({
+			history: [
+				{ kind: HistoryTurnKind.Request, prompt: 'Question' },
+				{ kind: HistoryTurnKind.Response, markdown: [] },
+			],
+		}));
+
+		assert.ok(prompt.includes('No response provided.'));
+	});
+
+	test('Drops the oldest turns that do not fit in the history limit', () => {
+		const prompt = buildPrompt(null, options({
+			maxHistoryLength: 100,
+			history: [
+				{ kind: HistoryTurnKind.Request, prompt: 'An old question that is long' },
+				{ kind: HistoryTurnKind.Response, markdown: ['An old answer'] },
+				{ kind: HistoryTurnKind.Request, prompt: 'Recent question' },
+				{ kind: HistoryTurnKind.Response, markdown: ['Recent answer'] },
+			],
+		}));
+
+		assert.ok(!prompt.includes('old'));
+		assert.ok(prompt.includes('Recent question'));
+	});
+
+	test('Only returns the history when there is no question', () => {
+		const prompt = buildPrompt(null, options({
+			history: [{ kind: HistoryTurnKind.Request, prompt: 'Question' }],
+		}));
+
+		assert.strictEqual(prompt, '[[BEGIN Human message]]\nQuestion\n[[END Human message]]\n');
+	});
+
+	test('Appends the response', () => {
+		const prompt = buildPrompt('Question', options({ response: 'Answer' }));
+
+		assert.ok(prompt.endsWith('[[BEGIN AI message]]\nAnswer\n[[END AI message]]\n'));
+	});
+
+	test('Replaces the prompt of the system XML model command', () => {
+		const prompt = buildPrompt(null, options({
+			history: [{ kind: HistoryTurnKind.Request, prompt: '', command: 'generateSystemXmlModel' }],
+		}));
+
+		assert.ok(prompt.includes('Generate a complete and valid RTI DDS system configuration'));
+	});
+});
@@ -0,0 +1,37 @@
+import * as assert from 'assert';
+
+import {
+	extractCodeBlocksFromMarkdown,
+	parseFollowUpQuestions,
+	parseRelatedApplication,
+} from '../../core/response';
+
+suite('Response Test Suite', () => {
+	test('Extracts a code block', () => {
+		const markdown = 'Here it is:\n```idl\nstruct Sensor { long id; };\n```\nDone.';
+
+		assert.strictEqual(extractCodeBlocksFromMarkdown(markdown, 'idl'), 'struct Sensor { long id; };');
+		assert.strictEqual(extractCodeBlocksFromMarkdown(markdown, 'python'), '');
+		assert.strictEqual(extractCodeBlocksFromMarkdown('```xml\n<dds/>', 'xml'), '<dds/>');
+	});
+
+	test('Parses follow-up questions in a code block', () => {
+		const response = '```json\n{"questions": [{"question": "What is QoS?", "summary": "QoS basics"}]}\n```';
+
+		assert.deepStrictEqual(parseFollowUpQuestions(response), [
+			{ question: 'What is QoS?', summary: 'QoS basics' },
+		]);
+	});
+
+	test('Ignores invalid follow-up questions', () => {
+		assert.deepStrictEqual(parseFollowUpQuestions('I cannot help with that.'), []);
+		assert.deepStrictEqual(parseFollowUpQuestions('{"other": true}'), []);
+	});
+
+	test('Parses the related application', () => {
+		assert.strictEqual(parseRelatedApplication('{"application": "RTI Admin Console"}'), 'RTI Admin Console');
+		assert.strictEqual(parseRelatedApplication('```json\n{"application": null}\n```'), null);
+		assert.strictEqual(parseRelatedApplication('{}'), null);
+		assert.strictEqual(parseRelatedApplication('none'), null);
+	});
+});
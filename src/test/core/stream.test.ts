@@ -0,0 +1,27 @@
+import * as assert from 'assert';
+
+import { LineDecoder } from '../../core/stream';
+
+suite('Stream Test Suite', () => {
+	test('Splits the stream into lines across chunks', () => {
+		const decoder = new LineDecoder();
+		const encode = (text: string) => new TextEncoder().encode(text);
+
+		assert.deepStrictEqual(decoder.push(encode('data: {"token"')), []);
+		assert.deepStrictEqual(decoder.push(encode(': "a"}\n\ndata: {"last')), ['data: {"token": "a"}', '']);
+		assert.deepStrictEqual(decoder.end(), ['data: {"last']);
+		assert.deepStrictEqual(decoder.end(), []);
+	});
+
+	test('Decodes a multibyte character split across chunks', () => {
+		const decoder = new LineDecoder();
+		const bytes = new TextEncoder().encode('{"token": "Grüße 😀"}\n');
+		const split = bytes.indexOf(0xc3) + 1;
+		const emoji = bytes.indexOf(0xf0) + 2;
+
+		assert.deepStrictEqual(decoder.push(bytes.slice(0, split)), []);
+		assert.deepStrictEqual(decoder.push(bytes.slice(split, emoji)), []);
+		assert.deepStrictEqual(decoder.push(bytes.slice(emoji)), ['{"token": "Grüße 😀"}']);
+		assert.deepStrictEqual(decoder.end(), []);
+	});
+});
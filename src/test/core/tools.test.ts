@@ -0,0 +1,53 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+
+import {
+	CONNEXT_TOOLS,
+	findToolByName,
+	findToolBySlashCommand,
+	getStartButtonTitle,
+	parseToolArguments,
+} from '../../core/tools';
+
+suite('Tools Test Suite', () => {
+	test('Declares the commands and slash commands of the tools', () => {
+		const packageJson = JSON.parse(
+			fs.readFileSync(path.join(__dirname, '..', '..', '..', 'package.json'), 'utf8'));
+		const commands: string[] = packageJson.contributes.commands.map((command: any) => command.command);
+		const slashCommands: string[] = packageJson.contributes.chatParticipants[0].commands.map(
+			(command: any) => command.name);
+
+		for (const tool of CONNEXT_TOOLS) {
+			if (tool.command !== undefined) {
+				assert.ok(commands.includes(`connext-vc-copilot.${tool.command}`), tool.command);
+			}
+
+			if (tool.slashCommand !== undefined) {
+				assert.ok(slashCommands.includes(tool.slashCommand), tool.slashCommand);
+			}
+		}
+
+		const runCommands = commands.filter((command) => command.startsWith('connext-vc-copilot.run-'));
+		assert.deepStrictEqual(
+			runCommands.sort(),
+			CONNEXT_TOOLS.filter((tool) => tool.command !== undefined)
+				.map((tool) => `connext-vc-copilot.${tool.command}`)
+				.sort());
+	});
+
+	test('Finds the tools', () => {
+		assert.strictEqual(findToolBySlashCommand('startDdsSpy')?.executable, 'rtiddsspy');
+		assert.strictEqual(findToolBySlashCommand('connextInfo'), undefined);
+		assert.strictEqual(findToolBySlashCommand(undefined), undefined);
+		assert.strictEqual(findToolByName('RTI Monitor')?.command, 'run-monitor-ui');
+		assert.strictEqual(getStartButtonTitle(findToolByName('RTI Admin Console')!), 'Start Admin Console');
+	});
+
+	test('Splits the arguments', () => {
+		assert.deepStrictEqual(
+			parseToolArguments(' -cfgFile "my config.xml"  -cfgName \'a b\' -verbosity 3'),
+			['-cfgFile', 'my config.xml', '-cfgName', 'a b', '-verbosity', '3']);
+		assert.deepStrictEqual(parseToolArguments(''), []);
+	});
+});
@@ -0,0 +1,321 @@
+/*******************************************************************************
+ * (c) Copyright, Real-Time Innovations, 2024.
+ * All rights reserved.
+ * No duplications, whole or partial, manual or electronic, may be made
+ * without express written permission.  Any such copies, or
+ * revisions thereof, must display this notice unaltered.
+ * This code contains trade secrets of Real-Time Innovations, Inc.
+ */
+
+import * as http from "http";
+import { AddressInfo } from "net";
+import { Server } from "socket.io";
+import { v4 as uuidv4 } from "uuid";
+
+import {
+    Fixture,
+    FixtureAnswer,
+    findAnswer,
+    getAnswerTokens,
+    readFixture,
+} from "../../fixture";
+
+/**
+ * Options to start the mock Intelligence Platform.
+ */
+export interface MockServerOptions {
+    /**
+     * The port to listen on. A free port is used if not set.
+     */
+    port?: number;
+
+    /**
+     * The scripted answers. The default answer is used for every question if
+     * not set.
+     */
+    fixture?: Fixture;
+
+    /**
+     * The delay between streamed tokens, in milliseconds.
+     */
+    tokenDelay?: number;
+}
+
+/**
+ * A running mock Intelligence Platform.
+ */
+export interface MockServer {
+    /**
+     * The URL to use in the `connext.intelligencePlatformUrl` setting.
+     */
+    url: string;
+
+    port: number;
+
+    /**
+     * The payloads received by the server, in order.
+     */
+    requests: any[];
+
+    /**
+     * The sessions that have been created and not deleted.
+     */
+    sessions: Set<string>;
+
+    close(): Promise<void>;
+}
+
+const DEFAULT_RESPONSE =
+    "This is a response from the mock Connext Intelligence Platform.";
+
+/**
+ * Selects the answer for a question, falling back to the default response.
+ */
+function getAnswer(fixture: Fixture, question: string): FixtureAnswer {
+    return (
+        findAnswer(fixture, question) ?? {
+            response: fixture.defaultResponse ?? DEFAULT_RESPONSE,
+        }
+    );
+}
+
+/**
+ * Reads the JSON body of an HTTP request.
+ */
+function readBody(req: http.IncomingMessage): Promise<any> {
+    return new Promise((resolve) => {
+        let body = "";
+
+        req.on("data", (chunk) => {
+            body += chunk;
+        });
+
+        req.on("end", () => {
+            try {
+                resolve(body === "" ? {} : JSON.parse(body));
+            } catch (error) {
+                resolve({});
+            }
+        });
+    });
+}
+
+/**
+ * Starts a local stand-in for the Connext Intelligence Platform.
+ *
+ * The server implements the Socket.IO `message`, `cancel` and `response`
+ * events used by the chat participant, the REST `/api/v1/copilot/ask`
+ * endpoint (including HTTP streaming) and the session endpoints. Any bearer
+ * token is accepted.
+ *
+ * @param options - The options to start the server.
+ * @returns A promise that resolves to the running server.
+ */
+export function startMockServer(
+    options: MockServerOptions = {}
+): Promise<MockServer> {
+    const fixture: Fixture = options.fixture ?? { answers: [] };
+    const tokenDelay = options.tokenDelay ?? 0;
+    const requests: any[] = [];
+    const sessions = new Set<string>();
+
+    const httpServer = http.createServer(async (req, res) => {
+        const url = new URL(req.url || "", "http://localhost");
+
+        if (!req.headers.authorization) {
+            res.writeHead(401, { "Content-Type": "application/json" });
+            res.end(JSON.stringify({ error: "unauthorized" }));
+            return;
+        }
+
+        if (req.method === "POST" && url.pathname === "/api/v1/copilot/ask") {
+            const payload = await readBody(req);
+            requests.push(payload);
+
+            const answer = getAnswer(fixture, payload.question ?? "");
+
+            if (!payload.stream) {
+                if (answer.error !== undefined) {
+                    res.writeHead(500, { "Content-Type": "application/json" });
+                    res.end(JSON.stringify({ error: answer.error }));
+                    return;
+                }
+
+                res.writeHead(200, { "Content-Type": "application/json" });
+                res.end(
+                    JSON.stringify({ response: getAnswerTokens(answer).join("") })
+                );
+                return;
+            }
+
+            res.writeHead(200, { "Content-Type": "text/event-stream" });
+
+            const send = (message: any) => {
+                res.write(
+                    `data: ${JSON.stringify({ id: payload.id, ...message })}\n\n`
+                );
+            };
+
+            if (answer.error !== undefined) {
+                send({ error: true, error_description: answer.error });
+                res.end();
+                return;
+            }
+
+            for (const token of getAnswerTokens(answer)) {
+                if (res.destroyed) {
+                    return;
+                }
+
+                send({ token: token });
+                await new Promise((resolve) => setTimeout(resolve, tokenDelay));
+            }
+
+            send({ last_token: true });
+            res.end();
+        } else if (
+            req.method === "POST" &&
+            url.pathname === "/api/v1/copilot/session"
+        ) {
+            const sessionId = uuidv4();
+            sessions.add(sessionId);
+            res.writeHead(200, { "Content-Type": "application/json" });
+            res.end(JSON.stringify({ session_id: sessionId }));
+        } else if (
+            req.method === "DELETE" &&
+            url.pathname.startsWith("/api/v1/copilot/session/")
+        ) {
+            sessions.delete(
+                decodeURIComponent(
+                    url.pathname.substring("/api/v1/copilot/session/".length)
+                )
+            );
+            res.writeHead(204);
+            res.end();
+        } else {
+            res.writeHead(404);
+            res.end();
+        }
+    });
+
+    const io = new Server(httpServer);
+
+    io.use((socket, next) => {
+        if (!socket.handshake.headers.authorization) {
+            next(new Error("unauthorized"));
+            return;
+        }
+
+        next();
+    });
+
+    io.on("connection", (socket) => {
+        const cancelled = new Set<string>();
+
+        socket.on("cancel", (data: string) => {
+            try {
+                cancelled.add(JSON.parse(data).id);
+            } catch (error) {
+                // Ignore malformed messages
+            }
+        });
+
+        socket.on("message", async (data: string) => {
+            let payload;
+
+            try {
+                payload = JSON.parse(data);
+            } catch (error) {
+                socket.emit(
+                    "response",
+                    JSON.stringify({
+                        error: true,
+                        error_description: "Invalid message",
+                    })
+                );
+                return;
+            }
+
+            requests.push(payload);
+
+            const send = (message: any) => {
+                socket.emit(
+                    "response",
+                    JSON.stringify({ id: payload.id, ...message })
+                );
+            };
+
+            const answer = getAnswer(fixture, payload.question ?? "");
+
+            if (answer.error !== undefined) {
+                send({ error: true, error_description: answer.error });
+                return;
+            }
+
+            for (const token of getAnswerTokens(answer)) {
+                if (cancelled.has(payload.id) || !socket.connected) {
+                    break;
+                }
+
+                send({ token: token });
+                await new Promise((resolve) => setTimeout(resolve, tokenDelay));
+            }
+
+            cancelled.delete(payload.id);
+            send({ last_token: true });
+        });
+    });
+
+    return new Promise((resolve, reject) => {
+        httpServer.once("error", reject);
+
+        httpServer.listen(options.port ?? 0, "localhost", () => {
+            const port = (httpServer.address() as AddressInfo).port;
+
+            resolve({
+                url: `ws://localhost:${port}`,
+                port: port,
+                requests: requests,
+                sessions: sessions,
+                close: () =>
+                    new Promise<void>((resolveClose) => {
+                        io.close(() => resolveClose());
+                    }),
+            });
+        });
+    });
+}
+
+/**
+ * Runs the mock server from the command line:
+ *
+ *     node ./out/test/mock/server.js [--port <port>] [--fixture <file.json>]
+ *         [--token-delay <ms>]
+ */
+async function main() {
+    const args = process.argv.slice(2);
+    const options: MockServerOptions = { port: 8502, tokenDelay: 20 };
+
+    for (let i = 0; i < args.length; i++) {
+        if (args[i] === "--port") {
+            options.port = parseInt(args[++i]);
+        } else if (args[i] === "--fixture") {
+            options.fixture = readFixture(args[++i]);
+        } else if (args[i] === "--token-delay") {
+            options.tokenDelay = parseInt(args[++i]);
+        }
+    }
+
+    const server = await startMockServer(options);
+
+    console.log(
+        `Mock Connext Intelligence Platform listening on ${server.url}`
+    );
+}
+
+if (require.main === module) {
+    main().catch((error) => {
+        console.error(error);
+        process.exit(1);
+    });
+}
@@ -0,0 +1,86 @@
+import * as assert from 'assert';
+import fetch from 'node-fetch';
+import { io } from 'socket.io-client';
+
+import { MockServer, startMockServer } from './mock/server';
+
+suite('Mock Intelligence Platform Test Suite', () => {
+	let server: MockServer;
+
+	suiteSetup(async () => {
+		server = await startMockServer({
+			fixture: {
+				answers: [
+					{ question: 'hello', tokens: ['Hello', ' from', ' Connext'] },
+					{ match: '^fail', error: 'Scripted failure' },
+				],
+			},
+		});
+	});
+
+	suiteTeardown(async () => {
+		await server.close();
+	});
+
+	test('Streams a scripted answer over Socket.IO', async () => {
+		const socket = io(server.url, {
+			extraHeaders: { Authorization: 'Bearer test' },
+		});
+
+		const tokens: string[] = [];
+
+		await new Promise<void>((resolve, reject) => {
+			socket.on('connect_error', reject);
+			socket.on('response', (data: string) => {
+				const message = JSON.parse(data);
+				assert.strictEqual(message.id, 'request-1');
+				if (message.last_token) {
+					resolve();
+				} else {
+					tokens.push(message.token);
+				}
+			});
+			socket.emit('message', JSON.stringify({ id: 'request-1', question: 'hello' }));
+		});
+
+		socket.close();
+
+		assert.strictEqual(tokens.join(''), 'Hello from Connext');
+	});
+
+	test('Answers over REST', async () => {
+		const response = await fetch(`http://localhost:${server.port}/api/v1/copilot/ask`, {
+			method: 'POST',
+			headers: {
+				'Content-Type': 'application/json',
+				Authorization: 'Bearer test',
+			},
+			body: JSON.stringify({ id: 'request-2', question: 'hello' }),
+		});
+
+		assert.strictEqual(response.status, 200);
+		assert.deepStrictEqual(await response.json(), { response: 'Hello from Connext' });
+	});
+
+	test('Reports scripted errors', async () => {
+		const response = await fetch(`http://localhost:${server.port}/api/v1/copilot/ask`, {
+			method: 'POST',
+			headers: {
+				'Content-Type': 'application/json',
+				Authorization: 'Bearer test',
+			},
+			body: JSON.stringify({ id: 'request-3', question: 'fail now', stream: true }),
+		});
+
+		assert.match(await response.text(), /Scripted failure/);
+	});
+
+	test('Rejects requests without credentials', async () => {
+		const response = await fetch(`http://localhost:${server.port}/api/v1/copilot/ask`, {
+			method: 'POST',
+			body: '{}',
+		});
+
+		assert.strictEqual(response.status, 401);
+	});
+});
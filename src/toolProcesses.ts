@@ -0,0 +1,389 @@
+/*******************************************************************************
+ * (c) Copyright, Real-Time Innovations, 2024.
+ * All rights reserved.
+ * No duplications, whole or partial, manual or electronic, may be made
+ * without express written permission.  Any such copies, or
+ * revisions thereof, must display this notice unaltered.
+ * This code contains trade secrets of Real-Time Innovations, Inc.
+ */
+
+import * as vscode from "vscode";
+import { ChildProcess, spawn } from "child_process";
+
+import { describeExit, OutputTail } from "./core/process";
+import {
+    CONNEXT_PRODUCT,
+    getSpawnCommand,
+    isWindows,
+    showInformationMessage,
+} from "./utils";
+
+/**
+ * The number of output lines of a tool shown when it fails.
+ */
+const FAILURE_OUTPUT_LINES = 5;
+
+/**
+ * The time a tool has to end after being asked to stop, before it is
+ * killed, in milliseconds.
+ */
+const STOP_TIMEOUT = 5000;
+
+/**
+ * A tool launched by the extension.
+ */
+export interface ToolProcess {
+    /**
+     * The display name of the tool, such as "RTI Admin Console".
+     */
+    readonly name: string;
+
+    /**
+     * The program, its arguments and its environment variables, to restart
+     * the tool.
+     */
+    readonly file: string;
+    readonly args: string[];
+    readonly env: NodeJS.ProcessEnv;
+
+    /**
+     * The running process.
+     */
+    readonly child: ChildProcess;
+
+    /**
+     * Resolved when the process ends.
+     */
+    readonly exited: Promise<void>;
+
+    /**
+     * Whether the user asked to stop the tool, so its exit is not reported
+     * as a failure.
+     */
+    stopping: boolean;
+}
+
+/**
+ * Launches the RTI tools and keeps track of them while they run.
+ *
+ * The output of every tool is written to the "Connext Tools" output channel.
+ * When a tool cannot be started or exits with an error, the user is told
+ * with the last lines of its output and can open the log or restart it.
+ */
+export class ToolProcessManager implements vscode.Disposable {
+    private processes: ToolProcess[];
+    private output: vscode.OutputChannel;
+
+    /**
+     * Creates the manager and its output channel.
+     */
+    constructor() {
+        this.processes = [];
+        this.output = vscode.window.createOutputChannel("Connext Tools");
+    }
+
+    /**
+     * The tools that are running.
+     */
+    get running(): ToolProcess[] {
+        return [...this.processes];
+    }
+
+    /**
+     * Launches a tool.
+     *
+     * @param name - The display name of the tool.
+     * @param file - The program to run. It is searched in the `PATH` of `env`.
+     * @param args - The arguments of the program.
+     * @param env - The environment variables of the program.
+     * @returns The launched tool.
+     */
+    launch(
+        name: string,
+        file: string,
+        args: string[],
+        env: NodeJS.ProcessEnv
+    ): ToolProcess {
+        const command = getSpawnCommand(file, args);
+        const tail = new OutputTail(FAILURE_OUTPUT_LINES);
+
+        this.log(name, `Starting ${[file, ...args].join(" ")}`);
+
+        // On Linux and macOS the tools are scripts that start other
+        // processes, such as a Java virtual machine. They run in their own
+        // process group, so that stopping a tool stops all of them.
+        const child = spawn(command.file, command.args, {
+            env: env,
+            windowsVerbatimArguments: command.windowsVerbatimArguments,
+            detached: !isWindows(),
+        });
+
+        const onOutput = (data: Buffer) => {
+            for (const line of tail.append(data.toString())) {
+                this.log(name, line);
+            }
+        };
+
+        child.stdout?.on("data", onOutput);
+        child.stderr?.on("data", onOutput);
+
+        let tool: ToolProcess;
+
+        const exited = new Promise<void>((resolve) => {
+            let finished = false;
+
+            const finish = (failure: string | undefined) => {
+                if (finished) {
+                    return;
+                }
+
+                finished = true;
+
+                for (const line of tail.flush()) {
+                    this.log(name, line);
+                }
+
+                this.processes = this.processes.filter((other) => other !== tool);
+
+                if (failure !== undefined && !tool.stopping) {
+                    this.reportFailure(tool, failure, tail.lastLines);
+                }
+
+                resolve();
+            };
+
+            child.on("error", (err) => {
+                this.log(name, `Error: ${err.message}`);
+                finish(`Could not start ${name}: ${err.message}`);
+            });
+
+            child.on("close", (code, signal) => {
+                this.log(
+                    name,
+                    code !== null
+                        ? `Exited with code ${code}`
+                        : `Terminated by ${signal}`
+                );
+                finish(describeExit(name, code, signal));
+            });
+        });
+
+        tool = {
+            name: name,
+            file: file,
+            args: args,
+            env: env,
+            child: child,
+            exited: exited,
+            stopping: false,
+        };
+
+        this.processes.push(tool);
+
+        return tool;
+    }
+
+    /**
+     * Stops a tool and the processes it started: the process tree on
+     * Windows, where the tools are batch files, and the process group on
+     * Linux and macOS. A tool that does not end within `STOP_TIMEOUT` is
+     * killed.
+     *
+     * @param tool - The tool to stop.
+     * @returns A promise that resolves when the tool has ended.
+     */
+    async stop(tool: ToolProcess): Promise<void> {
+        tool.stopping = true;
+        this.log(tool.name, "Stopping");
+
+        this.signal(tool, "SIGTERM");
+
+        if (!(await this.waitForExit(tool))) {
+            this.log(tool.name, "Did not stop, killing it");
+            this.signal(tool, "SIGKILL");
+            await this.waitForExit(tool);
+        }
+    }
+
+    /**
+     * Stops a tool, if it is running, and launches it again.
+     *
+     * @param tool - The tool to restart.
+     * @returns The launched tool.
+     */
+    async restart(tool: ToolProcess): Promise<ToolProcess> {
+        if (this.processes.includes(tool)) {
+            await this.stop(tool);
+        }
+
+        return this.launch(tool.name, tool.file, tool.args, tool.env);
+    }
+
+    /**
+     * Shows the output of the tools.
+     */
+    showLog() {
+        this.output.show(true);
+    }
+
+    /**
+     * Disposes the output channel. The tools that are running are not
+     * stopped, so closing VS Code does not close them.
+     */
+    dispose() {
+        this.output.dispose();
+    }
+
+    /**
+     * Sends a signal to the processes of a tool.
+     */
+    private signal(tool: ToolProcess, signal: NodeJS.Signals) {
+        const pid = tool.child.pid;
+
+        if (pid === undefined) {
+            return;
+        }
+
+        try {
+            if (isWindows()) {
+                spawn("taskkill", ["/pid", `${pid}`, "/T", "/F"]);
+            } else {
+                process.kill(-pid, signal);
+            }
+        } catch (error) {
+            // The processes already ended
+        }
+    }
+
+    /**
+     * Waits for a tool to end, for at most `STOP_TIMEOUT`.
+     *
+     * @returns Whether the tool ended.
+     */
+    private async waitForExit(tool: ToolProcess): Promise<boolean> {
+        let timer: NodeJS.Timeout | undefined;
+
+        const timeout = new Promise<boolean>((resolve) => {
+            timer = setTimeout(() => resolve(false), STOP_TIMEOUT);
+        });
+
+        const ended = await Promise.race([
+            tool.exited.then(() => true),
+            timeout,
+        ]);
+
+        clearTimeout(timer);
+
+        return ended;
+    }
+
+    private log(name: string, line: string) {
+        this.output.appendLine(`[${name}] ${line}`);
+    }
+
+    private async reportFailure(
+        tool: ToolProcess,
+        failure: string,
+        lastLines: string[]
+    ) {
+        const message =
+            lastLines.length > 0
+                ? `${failure} Last output:\n${lastLines.join("\n")}`
+                : failure;
+
+        const selection = await vscode.window.showErrorMessage(
+            `${CONNEXT_PRODUCT}: ${message}`,
+            "Show Log",
+            "Restart"
+        );
+
+        if (selection === "Show Log") {
+            this.showLog();
+        } else if (selection === "Restart") {
+            this.restart(tool);
+        }
+    }
+}
+
+let TOOL_PROCESSES: ToolProcessManager | undefined = undefined;
+
+/**
+ * Returns the manager of the tools launched by the extension, creating it
+ * the first time.
+ *
+ * @returns The manager.
+ */
+export function getToolProcessManager(): ToolProcessManager {
+    if (TOOL_PROCESSES === undefined) {
+        TOOL_PROCESSES = new ToolProcessManager();
+    }
+
+    return TOOL_PROCESSES;
+}
+
+/**
+ * Asks the user to choose one of the running tools.
+ *
+ * @param placeHolder - The text shown in the quick pick.
+ * @returns The chosen tool, or undefined if none is running or the user
+ * cancelled.
+ */
+async function pickRunningTool(
+    placeHolder: string
+): Promise<ToolProcess | undefined> {
+    const running = getToolProcessManager().running;
+
+    if (running.length === 0) {
+        showInformationMessage("No Connext tools are running.");
+        return undefined;
+    }
+
+    const selection = await vscode.window.showQuickPick(
+        running.map((tool) => ({
+            label: tool.name,
+            description: tool.child.pid !== undefined ? `PID ${tool.child.pid}` : undefined,
+            tool: tool,
+        })),
+        { placeHolder: placeHolder }
+    );
+
+    return selection?.tool;
+}
+
+/**
+ * Registers the commands that stop and restart the running tools and show
+ * their output.
+ *
+ * @param context - The extension context.
+ */
+export function registerToolProcessCommands(context: vscode.ExtensionContext) {
+    const manager = getToolProcessManager();
+
+    context.subscriptions.push(
+        manager,
+        vscode.commands.registerCommand(
+            "connext-vc-copilot.stop-tool",
+            async () => {
+                const tool = await pickRunningTool("Select the tool to stop");
+
+                if (tool !== undefined) {
+                    await manager.stop(tool);
+                }
+            }
+        ),
+        vscode.commands.registerCommand(
+            "connext-vc-copilot.restart-tool",
+            async () => {
+                const tool = await pickRunningTool("Select the tool to restart");
+
+                if (tool !== undefined) {
+                    await manager.restart(tool);
+                }
+            }
+        ),
+        vscode.commands.registerCommand(
+            "connext-vc-copilot.show-tools-log",
+            () => manager.showLog()
+        )
+    );
+}
@@ -9,11 +9,23 @@
 
 import * as vscode from "vscode";
 import fetch from "node-fetch";
-import { exec, execSync } from "child_process";
+import { exec, spawn } from "child_process";
 import * as fs from "fs/promises";
 import * as fsSync from "fs";
 import { isBinaryFileSync } from "isbinaryfile";
 
+import { recordUsage } from "./account";
+import { getActiveEnvironment } from "./environment";
+import { getAgent } from "./network";
+import { findAnswer, getAnswerTokens } from "./fixture";
+import { getReplayFixture, recordAnswer } from "./recorder";
+
+import { getBatchCommandLine } from "./core/process";
+import { extractCodeBlocksFromMarkdown, stripJsonCodeFence } from "./core/response";
+
+export { getLanguageInfo } from "./core/project";
+export { extractCodeBlocksFromMarkdown } from "./core/response";
+
 export const CONNEXT_PRODUCT = "Connext for Github Copilot";
 
 /**
@@ -34,6 +46,15 @@ export function showInformationMessage(message: string) {
     vscode.window.showInformationMessage(`${CONNEXT_PRODUCT}: ${message}`);
 }
 
+/**
+ * Displays a warning message in the Visual Studio Code editor.
+ *
+ * @param message - The warning message to be displayed.
+ */
+export function showWarningMessage(message: string) {
+    vscode.window.showWarningMessage(`${CONNEXT_PRODUCT}: ${message}`);
+}
+
 /**
  * Asks a question to a language model and returns the response.
  *
@@ -64,42 +85,6 @@ export async function askQuestion(
     return response;
 }
 
-/**
- * Extracts the content of a specified code block from a Markdown string.
- *
- * @param markdown - The full Markdown string to search within.
- * @param markdownCode - The language identifier of the code block to extract (e.g., "typescript", "javascript").
- * @returns The content of the specified code block, or an empty string if the code block is not found.
- */
-export function extractCodeBlocksFromMarkdown(
-    markdown: string,
-    markdownCode: string
-): string {
-    // Construct the opening code block delimiter
-    const codeBlockStart = "```" + markdownCode;
-    const codeBlockEnd = "```";
-
-    // Find the starting index of the desired code block
-    const startIndex = markdown.indexOf(codeBlockStart);
-    if (startIndex === -1) {
-        // Return an empty string if the specified code block is not found
-        return "";
-    }
-
-    // Extract content after the opening code block
-    const afterStart = markdown.substring(startIndex + codeBlockStart.length);
-
-    // Find the closing code block delimiter
-    const endIndex = afterStart.indexOf(codeBlockEnd);
-    if (endIndex === -1) {
-        // Return everything after the opening if no closing delimiter is found
-        return afterStart.trim();
-    }
-
-    // Extract and return the code block content
-    return afterStart.substring(0, endIndex).trim();
-}
-
 /**
  * Checks if the given file path corresponds to a supported image file.
  *
@@ -164,7 +149,9 @@ export async function makeHttpRequest(
     options: fetch.RequestInit
 ): Promise<any | undefined> {
     try {
-        const response = await fetch(uri, options);
+        const response = await fetch(uri, { agent: getAgent(uri), ...options });
+
+        recordUsage(response.headers);
 
         if (!response.ok) {
             showErrorMessage(
@@ -182,25 +169,16 @@ export async function makeHttpRequest(
 }
 
 /**
- * Asks a question to the Connext AI Platform.
+ * Returns the HTTP URL of the Connext AI Platform, derived from the
+ * WebSocket URL of the active environment.
  *
- * @param question - The question to ask.
- * @param accessCode - The access code to authenticate with the Intelligence Platform.
- * @param token - A VS Code cancellation token.
- * @returns A promise that resolves to the response from the Intelligence Platform, or undefined if an error occurs or the URL is not set.
+ * @returns The HTTP URL, or undefined if the URL is not set.
  */
-export async function askQuestionToConnext(
-    question: string,
-    accessCode: string,
-    token: vscode.CancellationToken
-): Promise<string | undefined> {
-    let config = vscode.workspace.getConfiguration("connext");
-
-    let intelligencePlatformUrl: string | undefined = config.get(
-        "intelligencePlatformUrl"
-    );
+export function getIntelligencePlatformHttpUrl(): string | undefined {
+    let intelligencePlatformUrl =
+        getActiveEnvironment().intelligencePlatformUrl;
 
-    if (intelligencePlatformUrl == undefined) {
+    if (!intelligencePlatformUrl) {
         showErrorMessage(
             "The Intelligence Platform URL is not set. Please set it in the settings."
         );
@@ -217,6 +195,48 @@ export async function askQuestionToConnext(
         "http://"
     );
 
+    return intelligencePlatformHttpUrl;
+}
+
+/**
+ * Asks a question to the Connext AI Platform.
+ *
+ * @param question - The question to ask.
+ * @param accessCode - The access code to authenticate with the Intelligence Platform.
+ * @param token - A VS Code cancellation token.
+ * @returns A promise that resolves to the response from the Intelligence Platform, or undefined if an error occurs or the URL is not set.
+ */
+export async function askQuestionToConnext(
+    question: string,
+    accessCode: string,
+    token: vscode.CancellationToken
+): Promise<string | undefined> {
+    const payload = {
+        question: question,
+        session_memory: false,
+    };
+
+    const replayFixture = getReplayFixture();
+
+    if (replayFixture !== undefined) {
+        const answer = findAnswer(replayFixture, question);
+
+        if (answer === undefined || answer.error !== undefined) {
+            showErrorMessage(
+                `Error asking question to Connext: ${answer?.error ?? "No recorded answer matches the question."}`
+            );
+            return undefined;
+        }
+
+        return getAnswerTokens(answer).join("");
+    }
+
+    let intelligencePlatformHttpUrl = getIntelligencePlatformHttpUrl();
+
+    if (intelligencePlatformHttpUrl === undefined) {
+        return undefined;
+    }
+
     let uri = `${intelligencePlatformHttpUrl}/api/v1/copilot/ask`;
 
     let options: fetch.RequestInit = {
@@ -225,14 +245,16 @@ export async function askQuestionToConnext(
             "Content-Type": "application/json",
             Authorization: `Bearer ${accessCode}`,
         },
-        body: JSON.stringify({
-            question: question,
-            session_memory: false,
-        }),
+        body: JSON.stringify(payload),
     };
 
     try {
         const jsonResponse = await makeHttpRequest(uri, options);
+
+        if (jsonResponse?.response !== undefined) {
+            await recordAnswer(payload, { response: jsonResponse.response });
+        }
+
         return jsonResponse.response;
     } catch (error) {
         showErrorMessage(`Error asking question to Connext: ${error}`);
@@ -240,6 +262,78 @@ export async function askQuestionToConnext(
     }
 }
 
+/**
+ * Creates a session in the Connext AI Platform. The server keeps the
+ * conversation of a session, so requests sent with its id only need to
+ * include the new question.
+ *
+ * @param accessCode - The access code to authenticate with the Intelligence Platform.
+ * @returns A promise that resolves to the session id, or undefined if an error occurs or the URL is not set.
+ */
+export async function createConnextSession(
+    accessCode: string
+): Promise<string | undefined> {
+    let intelligencePlatformHttpUrl = getIntelligencePlatformHttpUrl();
+
+    if (intelligencePlatformHttpUrl === undefined) {
+        return undefined;
+    }
+
+    let uri = `${intelligencePlatformHttpUrl}/api/v1/copilot/session`;
+
+    let options: fetch.RequestInit = {
+        method: "POST",
+        headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${accessCode}`,
+        },
+    };
+
+    const jsonResponse = await makeHttpRequest(uri, options);
+
+    if (jsonResponse === undefined) {
+        return undefined;
+    }
+
+    return jsonResponse.session_id;
+}
+
+/**
+ * Deletes a session in the Connext AI Platform.
+ *
+ * @param sessionId - The id of the session to delete.
+ * @param accessCode - The access code to authenticate with the Intelligence Platform.
+ * @returns A promise that resolves to `true` if the session was deleted, otherwise `false`.
+ */
+export async function deleteConnextSession(
+    sessionId: string,
+    accessCode: string
+): Promise<boolean> {
+    let intelligencePlatformHttpUrl = getIntelligencePlatformHttpUrl();
+
+    if (intelligencePlatformHttpUrl === undefined) {
+        return false;
+    }
+
+    let uri = `${intelligencePlatformHttpUrl}/api/v1/copilot/session/${encodeURIComponent(sessionId)}`;
+
+    try {
+        const response = await fetch(uri, {
+            agent: getAgent(uri),
+            method: "DELETE",
+            headers: {
+                Authorization: `Bearer ${accessCode}`,
+            },
+        });
+
+        recordUsage(response.headers);
+
+        return response.ok;
+    } catch (error) {
+        return false;
+    }
+}
+
 /**
  * Asks a question to the Connext export and returns the response as a JSON object.
  *
@@ -262,9 +356,7 @@ export async function askQuestionToConnextWithJsonResponse(
     let jsonObject = undefined;
 
     try {
-        response = response.replace("```json", "");
-        response = response.replace("```", "");
-        jsonObject = JSON.parse(response);
+        jsonObject = JSON.parse(stripJsonCodeFence(response));
     } catch (e: any) {
         showErrorMessage(`Error parsing JSON response: ${e.message}`);
         return undefined;
@@ -301,53 +393,70 @@ export function isLinux() {
 }
 
 /**
- * Returns the default shell for the current operating system.
- *
- * On Windows, it returns the value of the `ComSpec` environment variable if set,
- * otherwise it defaults to "cmd.exe".
- *
- * On Unix-like systems, it returns the value of the `SHELL` environment variable if set,
- * otherwise it defaults to "/bin/bash".
- *
- * @returns {string} The default shell for the current operating system.
+ * Returns how to spawn a program. On Windows the RTI tools are batch files,
+ * which can only be run through `cmd.exe`, so the command line is built with
+ * every argument escaped and passed to `cmd.exe` as is.
+ *
+ * @param file - The program to run.
+ * @param args - The arguments of the program.
+ * @returns The program, the arguments and whether to pass the arguments
+ * without quoting them again.
  */
-export function getDefaultShell() {
-    return isWindows()
-        ? process.env.ComSpec || "cmd.exe"
-        : process.env.SHELL || "/bin/bash";
-}
+export function getSpawnCommand(
+    file: string,
+    args: string[]
+): { file: string; args: string[]; windowsVerbatimArguments: boolean } {
+    if (isWindows()) {
+        return {
+            file: process.env.comspec ?? "cmd.exe",
+            args: ["/d", "/s", "/c", `"${getBatchCommandLine(file, args)}"`],
+            windowsVerbatimArguments: true,
+        };
+    }
 
-/**
- * Executes a shell command asynchronously.
- *
- * @param command - The command to execute.
- * @throws Will throw an error if the command execution fails.
- */
-export function runCommand(command: string) {
-    const shell = getDefaultShell();
-
-    // Use child_process.exec to run the external application
-    exec(command, { shell }, (err, stdout, stderr) => {
-        if (err) {
-            // Handle the error
-            throw new Error(`Error running command: ${err.message}`);
-        }
-    });
+    return { file: file, args: args, windowsVerbatimArguments: false };
 }
 
 /**
- * Executes a shell command synchronously.
- *
- * @param command - The command to execute.
- * @throws Will throw an error if the command execution fails.
+ * Runs a program and waits for it to finish.
+ *
+ * @param file - The program to run. It is searched in the `PATH` of `env`.
+ * @param args - The arguments of the program.
+ * @param env - The environment variables of the program.
+ * @returns A promise that resolves when the program exits successfully.
+ * @throws Will throw an error with the output of the program if it cannot
+ * be started or exits with an error.
  */
-export function runCommandSync(command: string) {
-    try {
-        const shell = getDefaultShell();
-        const output = execSync(command, { shell });
-    } catch (err: any) {
-        throw new Error(`Error running command: ${err.message}`);
-    }
+export function runProcess(
+    file: string,
+    args: string[],
+    env: NodeJS.ProcessEnv
+): Promise<void> {
+    const command = getSpawnCommand(file, args);
+
+    return new Promise((resolve, reject) => {
+        const child = spawn(command.file, command.args, {
+            env: env,
+            windowsVerbatimArguments: command.windowsVerbatimArguments,
+        });
+        let output = "";
+
+        child.stdout.on("data", (data) => (output += data));
+        child.stderr.on("data", (data) => (output += data));
+
+        child.on("error", (err) => {
+            reject(new Error(`Error running ${file}: ${err.message}`));
+        });
+        child.on("close", (code) => {
+            if (code === 0) {
+                resolve();
+            } else {
+                reject(
+                    new Error(`Error running ${file} (exit code ${code}): ${output}`)
+                );
+            }
+        });
+    });
 }
 
 /**
@@ -507,59 +616,6 @@ export async function getHighestDotnetFramework(): Promise<string | undefined> {
     return undefined;
 }
 
-interface LanguageInfo {
-    name: string;
-    extension: string;
-    headerExtension: string;
-    markupCode: string;
-}
-
-/**
- * Retrieves information about a given programming language.
- *
- * @param language - The name of the programming language.
- * @returns An object containing the language name, file extension, header file extension, and a markup code string, or `undefined` if the language is not recognized.
- */
-export function getLanguageInfo(language: string): LanguageInfo | undefined {
-    const extensionMap: {
-        [key: string]: {
-            extension: string;
-            headerExtension: string;
-            markupCode: string;
-        };
-    } = {
-        Java: {
-            extension: "java",
-            headerExtension: "java",
-            markupCode: "java",
-        },
-        "C#": { extension: "cs", headerExtension: "cs", markupCode: "cs" },
-        C: { extension: "c", headerExtension: "h", markupCode: "c" },
-        "C++98": { extension: "cxx", headerExtension: "h", markupCode: "cpp" },
-        "C++11": {
-            extension: "cxx",
-            headerExtension: "hpp",
-            markupCode: "cpp",
-        },
-        Python: {
-            extension: "py",
-            headerExtension: "py",
-            markupCode: "python",
-        },
-    };
-
-    if (language in extensionMap) {
-        return {
-            name: language,
-            extension: extensionMap[language].extension,
-            headerExtension: extensionMap[language].headerExtension,
-            markupCode: extensionMap[language].markupCode,
-        };
-    }
-
-    return undefined;
-}
-
 /**
  * Asynchronously reads the content of a text file.
  *